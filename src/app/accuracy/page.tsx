@@ -0,0 +1,107 @@
+// src/app/accuracy/page.tsx
+import Link from 'next/link';
+import { fetchCompetitions } from '@/lib/services/dataService';
+import { queryLedger, summarizeLedger } from '@/lib/services/predictionLedger';
+import { ROLLING_WINDOW, buildAccuracyReport } from '@/lib/services/ledgerAccuracy';
+import { listModels, resolveModel } from '@/lib/models/registry';
+import { IconArrowRight } from '@/components/Icons';
+
+import RateLimitUpdater from '@/components/RateLimitUpdater';
+import RollingAccuracyChart from '@/components/RollingAccuracyChart';
+import CalibrationCurve from '@/components/CalibrationCurve';
+import AccuracyBreakdown from '@/components/AccuracyBreakdown';
+
+const StatBox = ({ label, value, tone }: { label: string; value: string; tone: string }) => (
+    <div className={`flex-1 min-w-[45%] md:min-w-0 border-4 border-black p-4 text-center shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] ${tone}`}>
+        <div className="font-black text-xs uppercase">{label}</div>
+        <div className="font-mono text-3xl font-bold">{value}</div>
+    </div>
+);
+
+export default async function AccuracyPage({ searchParams }: { searchParams: Promise<{ model?: string }> }) {
+    const { model: modelParam } = await searchParams;
+    const model = resolveModel(modelParam);
+
+    // Competition names only label the breakdown, so a failed fetch falls back to ids
+    const { competitions, rateLimitInfo } = await fetchCompetitions();
+    const competitionName = (competitionId: number) =>
+        competitions.find(c => c.id === competitionId)?.name ?? `Competition ${competitionId}`;
+
+    const entries = queryLedger({ modelId: model.id });
+    const summary = summarizeLedger(entries);
+    const report = buildAccuracyReport(entries, competitionName);
+    const { overall } = report;
+
+    return (
+        <main className="min-h-screen p-4 md:p-8 max-w-4xl mx-auto bg-[var(--neo-bg)]">
+            <RateLimitUpdater rateLimitInfo={rateLimitInfo} />
+            <header className="mb-12 relative z-10">
+                <Link href="/" className="inline-flex items-center gap-2 mb-8 neo-button group">
+                    <IconArrowRight className="w-6 h-6 transform rotate-180 group-hover:-translate-x-1 transition-transform" />
+                    BACK TO LEAGUES
+                </Link>
+
+                <div className="border-4 border-black bg-white p-8 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] relative overflow-hidden">
+                    <h1 className="text-4xl md:text-6xl font-black uppercase tracking-tighter mb-2">ACCURACY</h1>
+                    <div className="inline-block bg-black text-white px-3 py-1 font-mono text-sm font-bold transform -rotate-1">
+                        {summary.total} PICKS LOGGED · {summary.pending} PENDING · {summary.void} VOID
+                    </div>
+
+                    {/* Model Switch */}
+                    <div className="flex flex-wrap items-center gap-3 mt-6">
+                        <span className="font-black text-sm uppercase">Model:</span>
+                        {listModels().map(option => (
+                            <Link
+                                key={option.id}
+                                href={`/accuracy?model=${option.id}`}
+                                className={`font-mono text-xs font-bold uppercase px-3 py-1.5 border-2 border-black shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] ${option.id === model.id ? 'bg-[var(--neo-yellow)]' : 'bg-white'}`}
+                            >
+                                {option.label} <span className="opacity-60">v{option.version}</span>
+                            </Link>
+                        ))}
+                    </div>
+                </div>
+            </header>
+
+            {overall.settled === 0 ? (
+                <div className="neo-box p-16 text-center bg-gray-100 rotate-1">
+                    <h3 className="text-3xl font-black uppercase mb-4">NOTHING SETTLED YET</h3>
+                    <p className="font-mono text-lg">Picks are logged as predictions are viewed and settle once the matches finish.</p>
+                </div>
+            ) : (
+                <div className="relative z-10">
+                    <div className="flex flex-wrap gap-4 mb-12">
+                        <StatBox label="Settled" value={String(overall.settled)} tone="bg-white" />
+                        <StatBox label="Hit Rate" value={`${overall.hitRate.toFixed(0)}%`} tone="bg-[var(--neo-yellow)]" />
+                        <StatBox label="Brier" value={overall.brierScore.toFixed(3)} tone="bg-white" />
+                    </div>
+
+                    <section className="neo-box p-4 md:p-8 bg-white mb-12">
+                        <h2 className="font-black text-2xl uppercase mb-6">Rolling Hit Rate</h2>
+                        <RollingAccuracyChart points={report.rolling} window={ROLLING_WINDOW} />
+                    </section>
+
+                    <section className="neo-box p-4 md:p-8 bg-white mb-12">
+                        <h2 className="font-black text-2xl uppercase mb-6">Calibration</h2>
+                        <CalibrationCurve bins={report.reliability} />
+                    </section>
+
+                    <section className="neo-box p-4 md:p-8 bg-white mb-12">
+                        <h2 className="font-black text-2xl uppercase mb-2">Breakdown</h2>
+                        <p className="font-mono text-xs font-bold text-gray-500 mb-6">
+                            BRIER IS THE MEAN SQUARED PROBABILITY ERROR: LOWER IS BETTER, 0.250 IS A COIN FLIP
+                        </p>
+                        <AccuracyBreakdown title="By Risk Level" slices={report.byRiskLevel} />
+                        <AccuracyBreakdown title="By Confidence" slices={report.byConfidence} />
+                        <AccuracyBreakdown title="By Competition" slices={report.byCompetition} />
+                    </section>
+                </div>
+            )}
+
+            <footer className="mt-24 text-center font-mono text-sm border-t-4 border-black pt-8 pb-8 bg-[var(--neo-bg)]">
+                <p className="font-bold">SPORTYKOKO © 2025</p>
+                <p className="text-xs mt-2">POWERED BY KOKO LABS</p>
+            </footer>
+        </main>
+    );
+}
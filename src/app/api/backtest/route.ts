@@ -0,0 +1,60 @@
+// src/app/api/backtest/route.ts
+import path from 'path';
+import { NextResponse } from 'next/server';
+import { getArchivedMatches, loadRecordedMatches } from '@/lib/services/matchArchive';
+import { DATA_DIR } from '@/lib/storage/jsonFileStore';
+import { getModel, isModelId, listModels } from '@/lib/models/registry';
+import { BacktestReport, runBacktest } from '@/lib/backtest/backtestRunner';
+
+// Replays recorded fixtures offline; no football-data requests are made here
+export async function GET(request: Request) {
+    console.log("API /api/backtest hit");
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const modelParam = searchParams.get('model');
+        const competitionParam = searchParams.get('competitionId');
+        const dataset = searchParams.get('dataset');
+        const includeSamples = searchParams.get('includeSamples') === 'true';
+
+        if (modelParam && !isModelId(modelParam)) {
+            return NextResponse.json({ error: `Unknown model: ${modelParam}` }, { status: 400 });
+        }
+
+        const competitionId = competitionParam ? parseInt(competitionParam) : undefined;
+
+        // Datasets are plain Match[] exports dropped into the data directory
+        const matches = dataset
+            ? loadRecordedMatches(path.join(DATA_DIR, path.basename(dataset)))
+                .filter(m => competitionId === undefined || m.competitionId === competitionId)
+            : getArchivedMatches(competitionId);
+
+        // With no model given, every registered model is replayed so they can be compared side by side
+        const models = modelParam ? [getModel(modelParam)!] : listModels();
+
+        const reports: Record<string, (BacktestReport | Omit<BacktestReport, 'samples'>) & { version: string }> = {};
+        models.forEach(model => {
+            const report = runBacktest(matches, { model });
+            reports[model.id] = includeSamples ? { ...report, version: model.version } : {
+                version: model.version,
+                generatedAt: report.generatedAt,
+                fixturesReplayed: report.fixturesReplayed,
+                fixturesSkipped: report.fixturesSkipped,
+                overall: report.overall,
+                byCompetition: report.byCompetition
+            };
+        });
+
+        return NextResponse.json({
+            source: dataset ? path.basename(dataset) : 'archive',
+            matchesAvailable: matches.length,
+            reports
+        });
+    } catch (error) {
+        console.error("Error running backtest:", error);
+        return NextResponse.json({
+            error: 'Failed to run backtest',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, { status: 500 });
+    }
+}
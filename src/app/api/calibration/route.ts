@@ -0,0 +1,56 @@
+// src/app/api/calibration/route.ts
+import { NextResponse } from 'next/server';
+import { getArchivedMatches } from '@/lib/services/matchArchive';
+import { getModel, isModelId } from '@/lib/models/registry';
+import { fitAndStoreCalibration, getActiveCalibration, listCalibrations } from '@/lib/services/calibrationStore';
+import { runBacktest } from '@/lib/backtest/backtestRunner';
+
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const modelId = searchParams.get('model') || undefined;
+
+    try {
+        return NextResponse.json({
+            active: modelId ? getActiveCalibration(modelId) ?? null : undefined,
+            versions: listCalibrations(modelId)
+        });
+    } catch (error) {
+        console.error("Error reading calibrations:", error);
+        return NextResponse.json({
+            error: 'Failed to read calibrations',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, { status: 500 });
+    }
+}
+
+// Fits a new calibration version from a replay of the archived fixtures (development only)
+export async function POST(request: Request) {
+    if (process.env.NODE_ENV === 'production') {
+        return NextResponse.json({ error: 'Not available in production' }, { status: 403 });
+    }
+
+    try {
+        const body = await request.json().catch(() => ({}));
+        const { model: modelId, competitionId } = body;
+
+        if (!isModelId(modelId)) {
+            return NextResponse.json({ error: `Unknown model: ${modelId}` }, { status: 400 });
+        }
+
+        // Calibration is always fitted on raw, uncalibrated output
+        const report = runBacktest(getArchivedMatches(competitionId), { model: getModel(modelId)! });
+        const calibration = fitAndStoreCalibration(modelId, report.samples);
+
+        return NextResponse.json({
+            message: `Calibration v${calibration.version} fitted for ${modelId}`,
+            calibration,
+            backtest: report.overall
+        });
+    } catch (error) {
+        console.error("Error fitting calibration:", error);
+        return NextResponse.json({
+            error: 'Failed to fit calibration',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, { status: 400 });
+    }
+}
@@ -0,0 +1,51 @@
+// src/app/api/competitions/[id]/simulation/route.ts
+import { NextResponse } from 'next/server';
+import { fetchSeasonMatches } from '@/lib/services/dataService';
+import { DEFAULT_RELEGATION_SPOTS, DEFAULT_SIMULATION_ITERATIONS, simulateSeason } from '@/lib/simulation/seasonSimulation';
+
+// Keeps a single request from tying up the server
+const MAX_ITERATIONS = 50000;
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const competitionId = parseInt(id);
+
+    if (Number.isNaN(competitionId)) {
+        return NextResponse.json({ error: 'Invalid competition id' }, { status: 400 });
+    }
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const seedParam = searchParams.get('seed');
+        // Without a seed each run differs; the seed used is returned so it can be replayed
+        const seed = seedParam !== null ? parseInt(seedParam) : Math.floor(Math.random() * 2 ** 32);
+        const iterations = Math.min(MAX_ITERATIONS, parseInt(searchParams.get('iterations') || '') || DEFAULT_SIMULATION_ITERATIONS);
+        const relegationSpots = parseInt(searchParams.get('relegation') || '') || DEFAULT_RELEGATION_SPOTS;
+
+        if (Number.isNaN(seed)) {
+            return NextResponse.json({ error: 'Invalid seed' }, { status: 400 });
+        }
+
+        const { matches, rateLimitInfo } = await fetchSeasonMatches(competitionId);
+
+        if (rateLimitInfo.isRateLimited) {
+            return NextResponse.json({ error: 'Rate limit exceeded', rateLimitInfo }, { status: 429 });
+        }
+
+        if (matches.length === 0) {
+            return NextResponse.json({ error: 'No fixtures found for this competition' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            competitionId,
+            projection: simulateSeason(matches, { seed, iterations, relegationSpots }),
+            rateLimitInfo
+        });
+    } catch (error) {
+        console.error(`Error simulating competition ${competitionId}:`, error);
+        return NextResponse.json({
+            error: 'Failed to simulate season',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, { status: 500 });
+    }
+}
@@ -0,0 +1,61 @@
+// src/app/api/ensemble/route.ts
+import { NextResponse } from 'next/server';
+import { getArchivedMatches } from '@/lib/services/matchArchive';
+import { getEnsembleWeights, saveEnsembleWeights } from '@/lib/services/ensembleStore';
+import { ENSEMBLE_MEMBERS, calculateEnsembleWeights } from '@/lib/models/ensembleModel';
+import { runBacktest } from '@/lib/backtest/backtestRunner';
+
+export async function GET() {
+    try {
+        return NextResponse.json({
+            members: ENSEMBLE_MEMBERS.map(m => ({ id: m.model.id, version: m.model.version, fixedWeight: m.weight })),
+            learned: getEnsembleWeights()
+        });
+    } catch (error) {
+        console.error("Error reading ensemble weights:", error);
+        return NextResponse.json({
+            error: 'Failed to read ensemble weights',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, { status: 500 });
+    }
+}
+
+// Learns member weights from a replay of the archived fixtures (development only)
+export async function POST(request: Request) {
+    if (process.env.NODE_ENV === 'production') {
+        return NextResponse.json({ error: 'Not available in production' }, { status: 403 });
+    }
+
+    try {
+        const body = await request.json().catch(() => ({}));
+        const matches = getArchivedMatches(body.competitionId);
+
+        const logLoss: Record<string, number> = {};
+        let fixturesReplayed = 0;
+        ENSEMBLE_MEMBERS.forEach(({ model }) => {
+            const report = runBacktest(matches, { model });
+            logLoss[model.id] = report.overall.logLoss;
+            fixturesReplayed = report.fixturesReplayed;
+        });
+
+        if (fixturesReplayed === 0) {
+            return NextResponse.json({ error: 'No archived fixtures to learn from' }, { status: 400 });
+        }
+
+        const learned = {
+            fittedAt: new Date().toISOString(),
+            fixturesReplayed,
+            logLoss,
+            weights: calculateEnsembleWeights(logLoss)
+        };
+        saveEnsembleWeights(learned);
+
+        return NextResponse.json({ message: 'Ensemble weights learned', learned });
+    } catch (error) {
+        console.error("Error learning ensemble weights:", error);
+        return NextResponse.json({
+            error: 'Failed to learn ensemble weights',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, { status: 500 });
+    }
+}
@@ -0,0 +1,42 @@
+// src/app/api/ledger/route.ts
+import { NextResponse } from 'next/server';
+import { LedgerStatus, queryLedger, summarizeLedger } from '@/lib/services/predictionLedger';
+
+const LEDGER_STATUSES: LedgerStatus[] = ['PENDING', 'WON', 'LOST', 'VOID'];
+
+// Logged picks and how they settled; ?competitionId=&from=&to=&model=&status= (from and to are inclusive)
+export async function GET(request: Request) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const competitionParam = searchParams.get('competitionId');
+        const from = searchParams.get('from') || undefined;
+        const to = searchParams.get('to') || undefined;
+        const status = searchParams.get('status')?.toUpperCase();
+
+        if ([from, to].some(date => date !== undefined && isNaN(new Date(date).getTime()))) {
+            return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+        }
+        if (status && !LEDGER_STATUSES.includes(status as LedgerStatus)) {
+            return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+        }
+
+        const entries = queryLedger({
+            competitionId: competitionParam ? parseInt(competitionParam) : undefined,
+            from,
+            to,
+            modelId: searchParams.get('model') || undefined,
+            status: status as LedgerStatus | undefined
+        });
+
+        return NextResponse.json({
+            summary: summarizeLedger(entries),
+            entries
+        });
+    } catch (error) {
+        console.error("Error reading prediction ledger:", error);
+        return NextResponse.json({
+            error: 'Failed to read prediction ledger',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, { status: 500 });
+    }
+}
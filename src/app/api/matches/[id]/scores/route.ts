@@ -0,0 +1,65 @@
+// src/app/api/matches/[id]/scores/route.ts
+import { NextResponse } from 'next/server';
+import { fetchMatch, fetchTeamHistory } from '@/lib/services/dataService';
+import {
+    buildCorrectScoreGrid,
+    buildScoreMatrix,
+    deriveMarketsFromMatrix,
+    fitGoalModel
+} from '@/lib/services/goalModel';
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    console.log(`API /api/matches/${id}/scores hit`);
+
+    try {
+        const matchResult = await fetchMatch(id);
+
+        if (matchResult.rateLimitInfo.isRateLimited) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded',
+                rateLimitInfo: matchResult.rateLimitInfo
+            }, { status: 429 });
+        }
+
+        const match = matchResult.match;
+        if (!match) {
+            return NextResponse.json({ error: `Match ${id} not found` }, { status: 404 });
+        }
+
+        const homeHistoryResult = await fetchTeamHistory(match.homeTeamId);
+        const awayHistoryResult = await fetchTeamHistory(match.awayTeamId);
+
+        if (homeHistoryResult.rateLimitInfo.isRateLimited || awayHistoryResult.rateLimitInfo.isRateLimited) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded during team history fetch',
+                rateLimitInfo: homeHistoryResult.rateLimitInfo.isRateLimited
+                    ? homeHistoryResult.rateLimitInfo
+                    : awayHistoryResult.rateLimitInfo
+            }, { status: 429 });
+        }
+
+        const fit = fitGoalModel(match, homeHistoryResult.matches, awayHistoryResult.matches);
+        const matrix = buildScoreMatrix(fit.expectation);
+        const markets = deriveMarketsFromMatrix(matrix, fit.sampleSize);
+
+        return NextResponse.json({
+            match,
+            expectation: fit.expectation,
+            grid: buildCorrectScoreGrid(matrix),
+            markets: {
+                bttsProbability: markets.scoring.both * 100,
+                goalLines: markets.goalLines,
+                result: markets.result
+            },
+            sampleSize: fit.sampleSize,
+            rateLimitInfo: awayHistoryResult.rateLimitInfo
+        });
+    } catch (error) {
+        console.error(`Error building score matrix for match ${id}:`, error);
+        return NextResponse.json({
+            error: 'Failed to build score matrix',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, { status: 500 });
+    }
+}
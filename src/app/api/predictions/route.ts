@@ -1,11 +1,53 @@
 // src/app/api/predictions/route.ts
 import { NextResponse } from 'next/server';
-import { fetchUpcomingMatches, fetchTeamHistory, fetchHeadToHead, RateLimitInfo } from '@/lib/services/dataService';
-import { generateEnhancedPrediction } from '@/lib/services/predictionService';
-
-export async function GET() {
+import { fetchUpcomingMatches, fetchStandings, fetchScorers, fetchTeamHistory, fetchHeadToHead, RateLimitInfo, Scorer, StandingRow } from '@/lib/services/dataService';
+import { getRatingValue } from '@/lib/services/eloStore';
+import { getActiveCalibration } from '@/lib/services/calibrationStore';
+import { getEnsembleWeights } from '@/lib/services/ensembleStore';
+import { getArchivedMatches } from '@/lib/services/matchArchive';
+import { estimateRestEffect } from '@/lib/services/fixtureCongestion';
+import { LeaguePrior, calculateLeaguePrior } from '@/lib/services/leaguePrior';
+import { recordPredictions } from '@/lib/services/predictionLedger';
+import { resolveModel } from '@/lib/models/registry';
+
+export async function GET(request: Request) {
     console.log("API /api/predictions hit");
     try {
+        const { searchParams } = new URL(request.url);
+        const model = resolveModel(searchParams.get('model'));
+        const calibration = getActiveCalibration(model.id);
+        const ensembleWeights = getEnsembleWeights()?.weights;
+        const restEffect = estimateRestEffect(getArchivedMatches());
+
+        // One prior per competition; without archived games the model builds its own from the histories
+        const leaguePriors = new Map<number, LeaguePrior | undefined>();
+        const leaguePriorFor = (competitionId?: number): LeaguePrior | undefined => {
+            if (competitionId === undefined) return undefined;
+            if (!leaguePriors.has(competitionId)) {
+                const prior = calculateLeaguePrior(getArchivedMatches(competitionId));
+                leaguePriors.set(competitionId, prior.sampleSize > 0 ? prior : undefined);
+            }
+            return leaguePriors.get(competitionId);
+        };
+
+        // One table and one scorers request per competition, shared by every match in it
+        const standingsByCompetition = new Map<number, Promise<StandingRow[]>>();
+        const standingsFor = async (competitionId?: number): Promise<StandingRow[] | undefined> => {
+            if (competitionId === undefined) return undefined;
+            if (!standingsByCompetition.has(competitionId)) {
+                standingsByCompetition.set(competitionId, fetchStandings(competitionId).then(result => result.standings));
+            }
+            return standingsByCompetition.get(competitionId);
+        };
+        const scorersByCompetition = new Map<number, Promise<Scorer[]>>();
+        const scorersFor = async (competitionId?: number): Promise<Scorer[] | undefined> => {
+            if (competitionId === undefined) return undefined;
+            if (!scorersByCompetition.has(competitionId)) {
+                scorersByCompetition.set(competitionId, fetchScorers(competitionId).then(result => result.scorers));
+            }
+            return scorersByCompetition.get(competitionId);
+        };
+
         // 1. Fetch upcoming matches
         const matchesResult = await fetchUpcomingMatches();
 
@@ -55,13 +97,21 @@ export async function GET() {
                         // Continue without H2H data
                     }
 
-                    // Generate enhanced prediction
-                    const prediction = generateEnhancedPrediction(
-                        match,
-                        homeHistoryResult.matches,
-                        awayHistoryResult.matches,
-                        h2hResult.matches
-                    );
+                    // Generate prediction with the requested model
+                    const prediction = model.predict(match, {
+                        homeHistory: homeHistoryResult.matches,
+                        awayHistory: awayHistoryResult.matches,
+                        headToHead: h2hResult.matches,
+                        ratings: { home: getRatingValue(match.homeTeamId), away: getRatingValue(match.awayTeamId) },
+                        calibration,
+                        ensembleWeights,
+                        restEffect,
+                        leaguePrior: leaguePriorFor(match.competitionId),
+                        standings: await standingsFor(match.competitionId),
+                        scorers: await scorersFor(match.competitionId)
+                    });
+
+                    recordPredictions([{ match, prediction }]);
 
                     return {
                         match,
@@ -110,6 +160,7 @@ export async function GET() {
         // Return response with rate limit information
         const responseData: any = {
             predictions: successfulPredictions,
+            model: { id: model.id, version: model.version },
             total: successfulPredictions.length,
             requested: limitedMatches.length
         };
@@ -1,7 +1,7 @@
 // src/app/api/predictions/routeCached.ts
 import { NextResponse } from 'next/server';
-import { fetchUpcomingMatches, fetchTeamHistory, fetchHeadToHead, RateLimitInfo, Match } from '@/lib/services/dataServiceCached';
-import { generateEnhancedPrediction } from '@/lib/services/predictionService';
+import { fetchUpcomingMatches, fetchTeamHistory, fetchHeadToHead, RateLimitInfo, Match } from '@/lib/services/dataService';
+import { resolveModel } from '@/lib/models/registry';
 import { cacheManager, CACHE_KEYS, CACHE_TTL } from '@/lib/cache/cacheManager';
 
 interface CachedPredictionResponse {
@@ -110,13 +110,12 @@ export async function GET() {
                         // Continue without H2H data
                     }
 
-                    // Generate enhanced prediction
-                    const prediction = generateEnhancedPrediction(
-                        match,
-                        homeHistoryResult.matches,
-                        awayHistoryResult.matches,
-                        h2hResult.matches
-                    );
+                    // Generate prediction with the default model
+                    const prediction = resolveModel().predict(match, {
+                        homeHistory: homeHistoryResult.matches,
+                        awayHistory: awayHistoryResult.matches,
+                        headToHead: h2hResult.matches
+                    });
 
                     const successResult = {
                         match,
@@ -0,0 +1,32 @@
+// src/app/api/teams/[id]/rating/route.ts
+import { NextResponse } from 'next/server';
+import { getTeamRating } from '@/lib/services/eloStore';
+import { ELO_INITIAL_RATING } from '@/lib/services/eloRating';
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const teamId = parseInt(id);
+
+    if (Number.isNaN(teamId)) {
+        return NextResponse.json({ error: 'Invalid team id' }, { status: 400 });
+    }
+
+    try {
+        const rating = getTeamRating(teamId);
+
+        // Unrated teams sit at the starting rating until one of their results is seen
+        return NextResponse.json({
+            teamId,
+            teamName: rating?.teamName ?? null,
+            rating: rating?.rating ?? ELO_INITIAL_RATING,
+            matchesRated: rating?.matchesRated ?? 0,
+            history: rating?.history ?? []
+        });
+    } catch (error) {
+        console.error(`Error reading rating for team ${teamId}:`, error);
+        return NextResponse.json({
+            error: 'Failed to read team rating',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        }, { status: 500 });
+    }
+}
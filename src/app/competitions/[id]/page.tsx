@@ -1,39 +1,77 @@
 // src/app/competitions/[id]/page.tsx
 import Link from 'next/link';
-import { fetchUpcomingMatches, fetchTeamHistory, fetchHeadToHead, Match } from '@/lib/services/dataService';
-import { generateEnhancedPrediction } from '@/lib/services/predictionService';
+import { fetchUpcomingMatches, fetchSeasonMatches, fetchStandings, fetchScorers, fetchTeamHistory, fetchHeadToHead, Match, RateLimitInfo } from '@/lib/services/dataService';
+import { getRatingValue } from '@/lib/services/eloStore';
+import { getActiveCalibration } from '@/lib/services/calibrationStore';
+import { getEnsembleWeights } from '@/lib/services/ensembleStore';
+import { getArchivedMatches } from '@/lib/services/matchArchive';
+import { estimateRestEffect } from '@/lib/services/fixtureCongestion';
+import { calculateLeaguePrior } from '@/lib/services/leaguePrior';
+import { recordPredictions } from '@/lib/services/predictionLedger';
+import { listModels, resolveModel } from '@/lib/models/registry';
 import { IconArrowRight, IconStar } from '@/components/Icons';
 import { EnhancedPrediction } from '@/lib/services/predictionService';
+import { SeasonProjection, simulateSeason } from '@/lib/simulation/seasonSimulation';
 
 interface Props {
     params: Promise<{ id: string }>;
 }
 
 import RateLimitUpdater from '@/components/RateLimitUpdater';
+import GoalLineLadder from '@/components/GoalLineLadder';
+import ResultMarket from '@/components/ResultMarket';
+import ProjectionTable from '@/components/ProjectionTable';
+import HalfMarkets from '@/components/HalfMarkets';
+import FactorWaterfall from '@/components/FactorWaterfall';
+import ConfidenceBar from '@/components/ConfidenceBar';
+import StandingsTable from '@/components/StandingsTable';
 
 // ... (imports)
 
-export default async function CompetitionPage({ params, searchParams }: { params: Promise<{ id: string }>, searchParams: Promise<{ page?: string }> }) {
+export default async function CompetitionPage({ params, searchParams }: { params: Promise<{ id: string }>, searchParams: Promise<{ page?: string; model?: string; tab?: string }> }) {
     const { id } = await params;
-    const { page } = await searchParams;
+    const { page, model: modelParam, tab } = await searchParams;
     const competitionId = parseInt(id);
     const currentPage = parseInt(page || '1');
     const pageSize = 3; // Reduced to manage rate limits better
+    const model = resolveModel(modelParam);
+    const calibration = getActiveCalibration(model.id);
+    const ensembleWeights = getEnsembleWeights()?.weights;
+    const restEffect = estimateRestEffect(getArchivedMatches());
+    // Without archived games for this competition the model builds its prior from the histories
+    const archivedPrior = calculateLeaguePrior(getArchivedMatches(competitionId));
+    const leaguePrior = archivedPrior.sampleSize > 0 ? archivedPrior : undefined;
+
+    const activeTab = tab === 'projections' || tab === 'standings' ? tab : 'predictions';
+    const showProjections = activeTab === 'projections';
+    const showStandings = activeTab === 'standings';
+
+    const pageHref = (targetPage: number, targetModel: string = model.id) =>
+        `/competitions/${competitionId}?tab=${activeTab}&page=${targetPage}&model=${targetModel}`;
+    const tabHref = (targetTab: 'predictions' | 'projections' | 'standings') =>
+        `/competitions/${competitionId}?tab=${targetTab}&model=${model.id}`;
 
     const matchesResult = await fetchUpcomingMatches(competitionId);
+    // The table feeds predictions and its own tab; projections never read it
+    const standingsResult = activeTab === 'predictions' || showStandings ? await fetchStandings(competitionId) : null;
+    const standings = standingsResult?.standings ?? [];
+    // Scorers only feed predictions, so the other tabs skip the request
+    const scorersResult = activeTab === 'predictions' ? await fetchScorers(competitionId) : null;
+    const scorers = scorersResult?.scorers;
     const matches = matchesResult.matches;
 
     // Calculate pagination
     const totalMatches = matches.length;
-    const totalPages = Math.ceil(totalMatches / pageSize);
+    const totalPages = activeTab === 'predictions' ? Math.ceil(totalMatches / pageSize) : 0;
     const startIndex = (currentPage - 1) * pageSize;
     const endIndex = startIndex + pageSize;
 
     // Slice matches for current page
-    const currentMatches = matches.slice(startIndex, endIndex);
+    // The other tabs spend their API budget on the season fixtures or the table instead
+    const currentMatches = activeTab === 'predictions' ? matches.slice(startIndex, endIndex) : [];
 
     const predictions: (EnhancedPrediction | null)[] = [];
-    const loopRateLimits: any[] = [];
+    const loopRateLimits: RateLimitInfo[] = [];
 
     for (const match of currentMatches) {
         try {
@@ -73,23 +111,41 @@ export default async function CompetitionPage({ params, searchParams }: { params
                 // Continue without H2H data
             }
 
-            // Generate enhanced prediction
-            const prediction = generateEnhancedPrediction(
-                match,
-                homeHistoryResult.matches,
-                awayHistoryResult.matches,
-                h2hMatches
-            );
+            // Generate prediction with the selected model
+            const prediction = model.predict(match, {
+                homeHistory: homeHistoryResult.matches,
+                awayHistory: awayHistoryResult.matches,
+                headToHead: h2hMatches,
+                ratings: { home: getRatingValue(match.homeTeamId), away: getRatingValue(match.awayTeamId) },
+                calibration,
+                ensembleWeights,
+                restEffect,
+                leaguePrior,
+                standings,
+                scorers
+            });
 
             predictions.push(prediction);
+            recordPredictions([{ match, prediction }]);
 
         } catch (error) {
             predictions.push(null);
         }
     }
 
+    // A fixed seed keeps the projection stable between page loads
+    let projection: SeasonProjection | null = null;
+    if (showProjections) {
+        const seasonResult = await fetchSeasonMatches(competitionId);
+        if (seasonResult.rateLimitInfo.isRateLimited) {
+            loopRateLimits.push(seasonResult.rateLimitInfo);
+        } else if (seasonResult.matches.length > 0) {
+            projection = simulateSeason(seasonResult.matches, { seed: competitionId });
+        }
+    }
+
     // Determine active rate limit info
-    const activeRateLimit = [matchesResult.rateLimitInfo, ...loopRateLimits].find(r => r.isRateLimited) || matchesResult.rateLimitInfo;
+    const activeRateLimit = [matchesResult.rateLimitInfo, standingsResult?.rateLimitInfo, scorersResult?.rateLimitInfo, ...loopRateLimits].find(r => r?.isRateLimited) || matchesResult.rateLimitInfo;
 
     return (
         <main className="min-h-screen p-4 md:p-8 max-w-4xl mx-auto bg-[var(--neo-bg)]">
@@ -103,11 +159,38 @@ export default async function CompetitionPage({ params, searchParams }: { params
                 <div className="border-4 border-black bg-white p-8 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] relative overflow-hidden">
                     <div className="absolute top-0 right-0 w-32 h-32 bg-[var(--neo-yellow)] rounded-full blur-3xl opacity-50 -translate-y-1/2 translate-x-1/2"></div>
                     <h1 className="text-4xl md:text-6xl font-black uppercase tracking-tighter mb-2 relative z-10">
-                        PREDICTIONS
+                        {activeTab.toUpperCase()}
                     </h1>
                     <div className="inline-block bg-black text-white px-3 py-1 font-mono text-sm font-bold transform -rotate-1">
                         COMPETITION ID: {competitionId}
                     </div>
+
+                    {/* Tabs */}
+                    <div className="flex flex-wrap items-center gap-3 mt-6 relative z-10">
+                        {(['predictions', 'projections', 'standings'] as const).map(targetTab => (
+                            <Link
+                                key={targetTab}
+                                href={tabHref(targetTab)}
+                                className={`font-black text-sm uppercase px-4 py-2 border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] ${targetTab === activeTab ? 'bg-black text-white' : 'bg-white'}`}
+                            >
+                                {targetTab}
+                            </Link>
+                        ))}
+                    </div>
+
+                    {/* Model Switch */}
+                    <div className="flex flex-wrap items-center gap-3 mt-6 relative z-10">
+                        <span className="font-black text-sm uppercase">Model:</span>
+                        {listModels().map(option => (
+                            <Link
+                                key={option.id}
+                                href={pageHref(1, option.id)}
+                                className={`font-mono text-xs font-bold uppercase px-3 py-1.5 border-2 border-black shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] ${option.id === model.id ? 'bg-[var(--neo-yellow)]' : 'bg-white'}`}
+                            >
+                                {option.label} <span className="opacity-60">v{option.version}</span>
+                            </Link>
+                        ))}
+                    </div>
                 </div>
             </header>
 
@@ -124,6 +207,34 @@ export default async function CompetitionPage({ params, searchParams }: { params
                 </div>
             )}
 
+            {/* Season Projections */}
+            {showProjections && (
+                <div className="relative z-10 mb-12">
+                    {projection ? (
+                        <ProjectionTable projection={projection} />
+                    ) : (
+                        <div className="neo-box p-16 text-center bg-gray-100 rotate-1">
+                            <h3 className="text-3xl font-black uppercase mb-4">NO PROJECTION AVAILABLE</h3>
+                            <p className="font-mono text-lg">Season fixtures could not be loaded. Try again shortly.</p>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Current Table */}
+            {showStandings && (
+                <div className="relative z-10 mb-12">
+                    {standings.length > 0 ? (
+                        <StandingsTable standings={standings} />
+                    ) : (
+                        <div className="neo-box p-16 text-center bg-gray-100 rotate-1">
+                            <h3 className="text-3xl font-black uppercase mb-4">NO TABLE AVAILABLE</h3>
+                            <p className="font-mono text-lg">This competition has no standings yet, or the API is rate limited.</p>
+                        </div>
+                    )}
+                </div>
+            )}
+
             <div className="grid gap-8 relative z-10 mb-12">
                 {predictions.map((p, index) => {
                     const match = currentMatches[index];
@@ -135,11 +246,11 @@ export default async function CompetitionPage({ params, searchParams }: { params
                                 <div className="flex flex-col md:flex-row justify-between items-center gap-8 mb-8 border-b-4 border-black pb-8">
                                     <div className="text-3xl font-black text-center md:text-left w-full flex flex-col md:flex-row items-center gap-4">
                                         <div className="bg-gray-400 text-white border-2 border-black p-4 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] transform -rotate-2 w-full md:w-auto text-center">
-                                            {match.homeTeam}
+                                            <Link href={`/teams/${match.homeTeamId}`} className="hover:underline">{match.homeTeam}</Link>
                                         </div>
                                         <div className="font-mono text-xl font-bold italic">VS</div>
                                         <div className="bg-gray-400 text-white border-2 border-black p-4 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] transform rotate-2 w-full md:w-auto text-center">
-                                            {match.awayTeam}
+                                            <Link href={`/teams/${match.awayTeamId}`} className="hover:underline">{match.awayTeam}</Link>
                                         </div>
                                     </div>
 
@@ -186,11 +297,11 @@ export default async function CompetitionPage({ params, searchParams }: { params
                             <div className="flex flex-col md:flex-row justify-between items-center gap-6 md:gap-8 mb-6 border-b-4 border-black pb-6">
                                 <div className="text-2xl md:text-3xl font-black text-center md:text-left w-full flex flex-col md:flex-row items-center gap-3">
                                     <div className="bg-[var(--neo-blue)] text-white border-2 border-black p-3 md:p-4 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] transform -rotate-2 w-full md:w-auto text-center">
-                                        {p.homeTeam}
+                                        <Link href={`/teams/${match.homeTeamId}`} className="hover:underline">{p.homeTeam}</Link>
                                     </div>
                                     <div className="font-mono text-lg md:text-xl font-bold italic">VS</div>
                                     <div className="bg-[var(--neo-pink)] text-white border-2 border-black p-3 md:p-4 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] transform rotate-2 w-full md:w-auto text-center">
-                                        {p.awayTeam}
+                                        <Link href={`/teams/${match.awayTeamId}`} className="hover:underline">{p.awayTeam}</Link>
                                     </div>
                                 </div>
 
@@ -212,26 +323,19 @@ export default async function CompetitionPage({ params, searchParams }: { params
                             </div>
 
                             {/* Confidence Interval */}
-                            <div className="mb-6">
-                                <div className="flex justify-between items-end mb-1">
-                                    <span className="font-black text-sm uppercase bg-black text-white px-2 py-0.5 transform -rotate-1 inline-block">Confidence</span>
-                                    <span className="font-mono text-xs font-bold bg-white border-2 border-black px-1">
-                                        {p.confidenceInterval.lower.toFixed(0)}% - {p.confidenceInterval.upper.toFixed(0)}%
-                                    </span>
-                                </div>
-                                <div className="w-full h-6 border-4 border-black bg-white relative shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
-                                    <div
-                                        className={`h-full border-r-4 border-black ${p.confidenceInterval.confidence === 'HIGH' ? 'bg-[var(--neo-green)]' : p.confidenceInterval.confidence === 'MEDIUM' ? 'bg-[var(--neo-yellow)]' : 'bg-[var(--neo-orange)]'}`}
-                                        style={{
-                                            marginLeft: `${p.confidenceInterval.lower}%`,
-                                            width: `${p.confidenceInterval.upper - p.confidenceInterval.lower}%`
-                                        }}
-                                    />
-                                </div>
-                                <div className="text-right mt-1">
-                                    <span className="font-mono text-[10px] font-bold uppercase text-gray-500">Level: {p.confidenceInterval.confidence}</span>
-                                </div>
-                            </div>
+                            <ConfidenceBar interval={p.confidenceInterval} />
+
+                            {/* 1X2 and Double Chance */}
+                            {p.result && <ResultMarket result={p.result} />}
+
+                            {/* Over/Under Ladder */}
+                            {p.goalLines.length > 0 && <GoalLineLadder goalLines={p.goalLines} />}
+
+                            {/* Per-Half Markets */}
+                            {p.halves && <HalfMarkets halves={p.halves} homeTeam={p.homeTeam} awayTeam={p.awayTeam} />}
+
+                            {/* Factor Breakdown */}
+                            {p.factors.length > 0 && <FactorWaterfall factors={p.factors} />}
 
                             {/* Key Factors */}
                             {p.keyFactors.length > 0 && (
@@ -254,6 +358,12 @@ export default async function CompetitionPage({ params, searchParams }: { params
                                 <IconStar className="absolute -top-4 -left-4 w-10 h-10 text-[var(--neo-yellow)] fill-current stroke-black stroke-2 animate-pulse" />
                                 <div className="mb-2">
                                     <span className="bg-black text-white px-2 py-0.5 font-bold mr-2 text-base uppercase">Analysis</span>
+                                    {p.model && (
+                                        <span className="font-mono text-[10px] font-bold uppercase text-gray-500">{p.model.id} v{p.model.version}</span>
+                                    )}
+                                    <Link href={`/h2h/${match.homeTeamId}/${match.awayTeamId}`} className="float-right font-mono text-[10px] font-bold uppercase border-2 border-black px-2 py-0.5 bg-white hover:bg-[var(--neo-yellow)]">
+                                        Head-to-head
+                                    </Link>
                                 </div>
                                 <p className="leading-relaxed font-medium">{p.reasoning}</p>
 
@@ -274,6 +384,12 @@ export default async function CompetitionPage({ params, searchParams }: { params
                                 )}
                             </div>
 
+                            <div className="mt-6 flex justify-end">
+                                <Link href={`/matches/${p.matchId}?model=${model.id}`} className="neo-button inline-flex items-center gap-2 text-sm">
+                                    FULL BREAKDOWN <IconArrowRight className="w-4 h-4" />
+                                </Link>
+                            </div>
+
                             <div className="absolute -top-4 -right-4 bg-black text-white px-3 py-1 font-mono text-sm font-bold border-2 border-white shadow-[4px_4px_0px_0px_rgba(0,0,0,0.2)] transform rotate-6 z-20">
                                 #{p.matchId}
                             </div>
@@ -281,7 +397,7 @@ export default async function CompetitionPage({ params, searchParams }: { params
                     );
                 })}
 
-                {predictions.length === 0 && (
+                {predictions.length === 0 && activeTab === 'predictions' && (
                     <div className="neo-box p-16 text-center bg-gray-100 rotate-1">
                         <h3 className="text-3xl font-black uppercase mb-4">NO MATCHES SCHEDULED</h3>
                         <p className="font-mono text-lg">Check back later for upcoming games.</p>
@@ -293,7 +409,7 @@ export default async function CompetitionPage({ params, searchParams }: { params
             {totalPages > 1 && (
                 <div className="flex justify-between items-center font-mono font-bold bg-white border-4 border-black p-4 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)]">
                     {currentPage > 1 ? (
-                        <Link href={`/competitions/${competitionId}?page=${currentPage - 1}`} className="neo-button flex items-center gap-2">
+                        <Link href={pageHref(currentPage - 1)} className="neo-button flex items-center gap-2">
                             <IconArrowRight className="w-5 h-5 rotate-180" /> PREVIOUS
                         </Link>
                     ) : (
@@ -305,7 +421,7 @@ export default async function CompetitionPage({ params, searchParams }: { params
                     <span className="text-lg">PAGE {currentPage} OF {totalPages}</span>
 
                     {currentPage < totalPages ? (
-                        <Link href={`/competitions/${competitionId}?page=${currentPage + 1}`} className="neo-button flex items-center gap-2">
+                        <Link href={pageHref(currentPage + 1)} className="neo-button flex items-center gap-2">
                             NEXT <IconArrowRight className="w-5 h-5" />
                         </Link>
                     ) : (
@@ -0,0 +1,129 @@
+// src/app/h2h/[homeId]/[awayId]/page.tsx
+import Link from 'next/link';
+import { fetchHeadToHead } from '@/lib/services/dataService';
+import { getArchivedMatches } from '@/lib/services/matchArchive';
+import { H2HVenueSplit, analyzeHeadToHead } from '@/lib/services/headToHead';
+import { IconArrowRight } from '@/components/Icons';
+
+import RateLimitUpdater from '@/components/RateLimitUpdater';
+
+const VenueCard = ({ title, split, homeTeam, awayTeam, tone }: { title: string; split: H2HVenueSplit; homeTeam: string; awayTeam: string; tone: string }) => (
+    <div className={`flex-1 min-w-[45%] border-4 border-black p-4 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] ${tone}`}>
+        <div className="font-black text-sm uppercase mb-3">{title} · {split.meetings} meetings</div>
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 font-mono text-xs font-bold">
+            <dt>{homeTeam} wins</dt><dd className="text-right">{split.homeWins}</dd>
+            <dt>Draws</dt><dd className="text-right">{split.draws}</dd>
+            <dt>{awayTeam} wins</dt><dd className="text-right">{split.awayWins}</dd>
+            <dt>Goals</dt><dd className="text-right">{split.homeGoals}:{split.awayGoals}</dd>
+            <dt>BTTS (recency weighted)</dt><dd className="text-right">{split.meetings > 0 ? `${split.bttsRate.toFixed(0)}%` : '—'}</dd>
+        </dl>
+    </div>
+);
+
+export default async function HeadToHeadPage({ params }: { params: Promise<{ homeId: string; awayId: string }> }) {
+    const { homeId, awayId } = await params;
+    const homeTeamId = parseInt(homeId);
+    const awayTeamId = parseInt(awayId);
+
+    // The API feed and the archive overlap; the analysis counts each meeting once
+    const h2hResult = await fetchHeadToHead(homeTeamId, awayTeamId);
+    const h2h = analyzeHeadToHead(homeTeamId, awayTeamId, [...h2hResult.matches, ...getArchivedMatches()]);
+
+    const latest = h2h.meetings[0]?.match;
+    const homeTeam = latest ? (latest.homeTeamId === homeTeamId ? latest.homeTeam : latest.awayTeam) : `Team ${homeTeamId}`;
+    const awayTeam = latest ? (latest.homeTeamId === awayTeamId ? latest.homeTeam : latest.awayTeam) : `Team ${awayTeamId}`;
+
+    return (
+        <main className="min-h-screen p-4 md:p-8 max-w-4xl mx-auto bg-[var(--neo-bg)]">
+            <RateLimitUpdater rateLimitInfo={h2hResult.rateLimitInfo} />
+            <header className="mb-12 relative z-10">
+                <Link href="/" className="inline-flex items-center gap-2 mb-8 neo-button group">
+                    <IconArrowRight className="w-6 h-6 transform rotate-180 group-hover:-translate-x-1 transition-transform" />
+                    BACK TO LEAGUES
+                </Link>
+
+                <div className="border-4 border-black bg-white p-8 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] relative overflow-hidden">
+                    <h1 className="text-3xl md:text-5xl font-black uppercase tracking-tighter mb-2">
+                        <Link href={`/teams/${homeTeamId}`} className="hover:underline">{homeTeam}</Link>
+                        {' vs '}
+                        <Link href={`/teams/${awayTeamId}`} className="hover:underline">{awayTeam}</Link>
+                    </h1>
+                    <div className="flex flex-wrap items-center gap-3">
+                        <div className="inline-block bg-black text-white px-3 py-1 font-mono text-sm font-bold transform -rotate-1">
+                            HEAD-TO-HEAD
+                        </div>
+                        <Link href={`/h2h/${awayTeamId}/${homeTeamId}`} className="font-mono text-xs font-bold uppercase px-3 py-1.5 border-2 border-black bg-white shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] hover:bg-[var(--neo-yellow)]">
+                            Swap venue
+                        </Link>
+                    </div>
+                </div>
+            </header>
+
+            {h2h.meetings.length > 0 ? (
+                <div className="grid gap-8 relative z-10 mb-12">
+                    <section className="flex flex-wrap gap-3 font-mono text-xs font-bold">
+                        <span className="px-3 py-1.5 border-2 border-black bg-[var(--neo-green)] shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+                            {h2h.bttsRate.toFixed(0)}% BTTS (WEIGHTED)
+                        </span>
+                        <span className="px-3 py-1.5 border-2 border-black bg-white shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] -rotate-1">
+                            {h2h.relevantMeetings.toFixed(1)} RELEVANT OF {h2h.meetings.length} MEETINGS
+                        </span>
+                        <span className="px-3 py-1.5 border-2 border-black bg-[var(--neo-yellow)] shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] rotate-1">
+                            {(h2h.weight * 100).toFixed(0)}% WEIGHT IN PREDICTIONS
+                        </span>
+                    </section>
+
+                    <section className="flex flex-wrap gap-4">
+                        <VenueCard title={`At ${homeTeam}`} split={h2h.sameVenue} homeTeam={homeTeam} awayTeam={awayTeam} tone="bg-[var(--neo-blue)] text-white" />
+                        <VenueCard title={`At ${awayTeam}`} split={h2h.reverseVenue} homeTeam={homeTeam} awayTeam={awayTeam} tone="bg-[var(--neo-pink)] text-white" />
+                    </section>
+
+                    <section className="neo-box p-4 md:p-8 bg-white">
+                        <h2 className="font-black text-2xl uppercase mb-4">Every Meeting</h2>
+                        <div className="overflow-x-auto border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+                            <table className="w-full font-mono text-xs font-bold">
+                                <thead className="bg-black text-white uppercase">
+                                    <tr>
+                                        <th className="px-2 py-2 text-left">Date</th>
+                                        <th className="px-2 py-2 text-left">Fixture</th>
+                                        <th className="px-2 py-2 text-right">Score</th>
+                                        <th className="px-2 py-2 text-right">BTTS</th>
+                                        <th className="px-2 py-2 text-right">Weight</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {h2h.meetings.map((m, idx) => (
+                                        <tr key={m.match.id} className={`border-t-2 border-black ${idx % 2 === 0 ? 'bg-white' : 'bg-gray-100'}`}>
+                                            <td className="px-2 py-2">{new Date(m.match.date).toLocaleDateString()}</td>
+                                            <td className="px-2 py-2 font-black uppercase">{m.match.homeTeam} vs {m.match.awayTeam}</td>
+                                            <td className="px-2 py-2 text-right">{m.match.score.home}-{m.match.score.away}</td>
+                                            <td className="px-2 py-2 text-right">
+                                                <span className={`inline-block w-10 text-center border-2 border-black ${m.btts ? 'bg-[var(--neo-green)]' : 'bg-[var(--neo-orange)]'}`}>
+                                                    {m.btts ? 'YES' : 'NO'}
+                                                </span>
+                                            </td>
+                                            <td className="px-2 py-2 text-right">{(m.relevance * 100).toFixed(0)}%</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <p className="mt-2 font-mono text-[10px] font-bold uppercase text-gray-500">
+                            Weight halves every two years and again for meetings with the venues swapped
+                        </p>
+                    </section>
+                </div>
+            ) : (
+                <div className="neo-box p-16 text-center bg-gray-100 rotate-1">
+                    <h3 className="text-3xl font-black uppercase mb-4">NO MEETINGS FOUND</h3>
+                    <p className="font-mono text-lg">These teams have no recorded meetings, or the API is rate limited.</p>
+                </div>
+            )}
+
+            <footer className="mt-24 text-center font-mono text-sm border-t-4 border-black pt-8 pb-8 bg-[var(--neo-bg)]">
+                <p className="font-bold">SPORTYKOKO © 2025</p>
+                <p className="text-xs mt-2">POWERED BY KOKO LABS</p>
+            </footer>
+        </main>
+    );
+}
@@ -0,0 +1,291 @@
+// src/app/matches/[id]/page.tsx
+import Link from 'next/link';
+import { fetchHeadToHead, fetchMatch, fetchScorers, fetchStandings, fetchTeamHistory } from '@/lib/services/dataService';
+import { getRatingValue } from '@/lib/services/eloStore';
+import { getActiveCalibration } from '@/lib/services/calibrationStore';
+import { getEnsembleWeights } from '@/lib/services/ensembleStore';
+import { getArchivedMatches } from '@/lib/services/matchArchive';
+import { estimateRestEffect } from '@/lib/services/fixtureCongestion';
+import { calculateLeaguePrior } from '@/lib/services/leaguePrior';
+import { recordPredictions } from '@/lib/services/predictionLedger';
+import { describeCompetition } from '@/lib/services/competitionContext';
+import { PredictionContext, collectPredictionInputs } from '@/lib/services/predictionService';
+import { TableStanding } from '@/lib/services/tableContext';
+import { GoalConcentration } from '@/lib/services/goalConcentration';
+import { buildTeamProfile } from '@/lib/services/teamProfile';
+import {
+    buildCorrectScoreGrid,
+    buildScoreMatrix,
+    deriveMarketsFromMatrix,
+    fitGoalModel
+} from '@/lib/services/goalModel';
+import { listModels, resolveModel } from '@/lib/models/registry';
+import { poissonModel } from '@/lib/models/poissonModel';
+import { IconArrowRight } from '@/components/Icons';
+import RateLimitUpdater from '@/components/RateLimitUpdater';
+import ScoreHeatmap from '@/components/ScoreHeatmap';
+import GoalLineLadder from '@/components/GoalLineLadder';
+import ResultMarket from '@/components/ResultMarket';
+import HalfMarkets from '@/components/HalfMarkets';
+import FactorWaterfall from '@/components/FactorWaterfall';
+import ConfidenceBar from '@/components/ConfidenceBar';
+import RecentResults from '@/components/RecentResults';
+
+const InputRow = ({ label, home, away }: { label: string; home: string; away: string }) => (
+    <tr className="border-t-2 border-black first:border-t-0 odd:bg-white even:bg-gray-100">
+        <td className="px-2 py-2 font-black uppercase">{label}</td>
+        <td className="px-2 py-2 text-right">{home}</td>
+        <td className="px-2 py-2 text-right">{away}</td>
+    </tr>
+);
+
+const describeTable = (standing?: TableStanding): string => {
+    if (!standing) return '—';
+    const stakes = standing.nothingToPlayFor ? 'NOTHING TO PLAY FOR' : standing.stakes.join('/');
+    return `#${standing.position} · ${standing.points} PTS${stakes ? ` · ${stakes}` : ''}`;
+};
+
+const describeConcentration = (concentration?: GoalConcentration): string =>
+    concentration
+        ? `${concentration.topScorer.playerName} · ${(concentration.share * 100).toFixed(0)}% (${concentration.topScorer.goals}/${concentration.teamGoals})`
+        : '—';
+
+const sectionTitle = 'text-2xl font-black uppercase mb-4 inline-block bg-[var(--neo-yellow)] border-4 border-black px-3 py-1 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] -rotate-1';
+
+export default async function MatchPage({ params, searchParams }: { params: Promise<{ id: string }>, searchParams: Promise<{ model?: string }> }) {
+    const { id } = await params;
+    const { model: modelParam } = await searchParams;
+    const model = resolveModel(modelParam);
+
+    const matchResult = await fetchMatch(id);
+    const match = matchResult.match;
+
+    const homeHistoryResult = match ? await fetchTeamHistory(match.homeTeamId) : null;
+    const awayHistoryResult = match ? await fetchTeamHistory(match.awayTeamId) : null;
+    const h2hResult = match ? await fetchHeadToHead(match.homeTeamId, match.awayTeamId) : null;
+    const standingsResult = match?.competitionId !== undefined ? await fetchStandings(match.competitionId) : null;
+    const scorersResult = match?.competitionId !== undefined ? await fetchScorers(match.competitionId) : null;
+
+    const rateLimits = [matchResult.rateLimitInfo, homeHistoryResult?.rateLimitInfo, awayHistoryResult?.rateLimitInfo, h2hResult?.rateLimitInfo, standingsResult?.rateLimitInfo, scorersResult?.rateLimitInfo];
+    const activeRateLimit = rateLimits.find(r => r?.isRateLimited) || matchResult.rateLimitInfo;
+
+    const homeHistory = homeHistoryResult?.matches ?? [];
+    const awayHistory = awayHistoryResult?.matches ?? [];
+    const headToHead = h2hResult?.matches ?? [];
+
+    // Same context the competition page predicts with, so the numbers agree
+    const archivedPrior = match?.competitionId !== undefined ? calculateLeaguePrior(getArchivedMatches(match.competitionId)) : null;
+    const context: PredictionContext = {
+        ratings: match ? { home: getRatingValue(match.homeTeamId), away: getRatingValue(match.awayTeamId) } : undefined,
+        calibration: getActiveCalibration(model.id),
+        restEffect: estimateRestEffect(getArchivedMatches()),
+        leaguePrior: archivedPrior && archivedPrior.sampleSize > 0 ? archivedPrior : undefined,
+        standings: standingsResult?.standings,
+        scorers: scorersResult?.scorers
+    };
+
+    const hasHistory = homeHistory.length > 0 && awayHistory.length > 0;
+    const prediction = match && hasHistory
+        ? model.predict(match, { ...context, homeHistory, awayHistory, headToHead, ensembleWeights: getEnsembleWeights()?.weights })
+        : null;
+    if (match && prediction) recordPredictions([{ match, prediction }]);
+    const inputs = match && hasHistory ? collectPredictionInputs(match, homeHistory, awayHistory, headToHead, context) : null;
+
+    // Only the goal model prices scorelines, so the heatmap is always its own; under any other
+    // model its markets from the same matrix sit beside it so the numbers can be read together
+    const fit = match && hasHistory ? fitGoalModel(match, homeHistory, awayHistory) : null;
+    const matrix = fit ? buildScoreMatrix(fit.expectation) : null;
+    const grid = matrix ? buildCorrectScoreGrid(matrix) : null;
+    const goalModelMarkets = fit && matrix && model.id !== poissonModel.id ? deriveMarketsFromMatrix(matrix, fit.sampleSize) : null;
+
+    const homeProfile = match ? buildTeamProfile(match.homeTeamId, homeHistory) : null;
+    const awayProfile = match ? buildTeamProfile(match.awayTeamId, awayHistory) : null;
+
+    const pct = (value: number) => `${value.toFixed(0)}%`;
+
+    return (
+        <main className="min-h-screen p-4 md:p-8 max-w-4xl mx-auto bg-[var(--neo-bg)]">
+            <RateLimitUpdater rateLimitInfo={activeRateLimit} />
+            <header className="mb-12 relative z-10">
+                <Link href={match?.competitionId ? `/competitions/${match.competitionId}?model=${model.id}` : '/'} className="inline-flex items-center gap-2 mb-8 neo-button group">
+                    <IconArrowRight className="w-6 h-6 transform rotate-180 group-hover:-translate-x-1 transition-transform" />
+                    {match?.competitionId ? 'BACK TO COMPETITION' : 'BACK TO LEAGUES'}
+                </Link>
+
+                <div className="border-4 border-black bg-white p-8 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] relative overflow-hidden">
+                    <h1 className="text-3xl md:text-5xl font-black uppercase tracking-tighter mb-2 relative z-10">
+                        {match ? (
+                            <>
+                                <Link href={`/teams/${match.homeTeamId}`} className="hover:underline">{match.homeTeam}</Link>
+                                {' vs '}
+                                <Link href={`/teams/${match.awayTeamId}`} className="hover:underline">{match.awayTeam}</Link>
+                            </>
+                        ) : 'MATCH UNAVAILABLE'}
+                    </h1>
+                    <div className="flex flex-wrap items-center gap-3">
+                        <div className="inline-block bg-black text-white px-3 py-1 font-mono text-sm font-bold transform -rotate-1">
+                            MATCH ID: {id}
+                        </div>
+                        {match && (
+                            <>
+                                <span className="font-mono text-xs font-bold uppercase">
+                                    {new Date(match.date).toLocaleString()} · {describeCompetition(match, inputs?.matchContext.aggregate)}
+                                </span>
+                                <Link href={`/h2h/${match.homeTeamId}/${match.awayTeamId}`} className="font-mono text-xs font-bold uppercase px-3 py-1.5 border-2 border-black bg-white shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] hover:bg-[var(--neo-yellow)]">
+                                    Head-to-head
+                                </Link>
+                            </>
+                        )}
+                    </div>
+
+                    {/* Model Switch */}
+                    <div className="flex flex-wrap items-center gap-3 mt-6">
+                        <span className="font-black text-sm uppercase">Model:</span>
+                        {listModels().map(option => (
+                            <Link
+                                key={option.id}
+                                href={`/matches/${id}?model=${option.id}`}
+                                className={`font-mono text-xs font-bold uppercase px-3 py-1.5 border-2 border-black shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] ${option.id === model.id ? 'bg-[var(--neo-yellow)]' : 'bg-white'}`}
+                            >
+                                {option.label} <span className="opacity-60">v{option.version}</span>
+                            </Link>
+                        ))}
+                    </div>
+                </div>
+            </header>
+
+            {match && prediction && inputs ? (
+                <div className="grid gap-8 relative z-10 mb-12">
+                    {/* Prediction */}
+                    <section className="neo-box p-4 md:p-8 bg-white">
+                        <div className="flex justify-between items-center mb-6 border-b-4 border-black pb-4">
+                            <span className="font-black text-xl uppercase">Both Teams To Score</span>
+                            <div className="flex items-center gap-2">
+                                <span className={`text-2xl font-black px-3 py-1 border-4 border-black shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] ${prediction.prediction === 'YES' ? 'bg-[var(--neo-green)]' : 'bg-[var(--neo-orange)]'}`}>
+                                    {prediction.prediction}
+                                </span>
+                                <span className="font-mono text-lg font-bold border-2 border-black px-2 py-1 bg-white shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+                                    {pct(prediction.bttsProbability)}
+                                </span>
+                                <span className="font-mono text-xs font-bold border-2 border-black px-2 py-1 bg-white">RISK: {prediction.riskLevel}</span>
+                            </div>
+                        </div>
+                        <ConfidenceBar interval={prediction.confidenceInterval} />
+                        {prediction.factors.length > 0 && <FactorWaterfall factors={prediction.factors} />}
+                        <p className="font-mono text-sm font-medium leading-relaxed">{prediction.reasoning}</p>
+                        {prediction.dataQuality.warning && (
+                            <div className="mt-4 p-2 bg-[var(--neo-orange)] border-2 border-black font-bold text-xs">⚠️ {prediction.dataQuality.warning}</div>
+                        )}
+                    </section>
+
+                    {/* Inputs */}
+                    <section>
+                        <h2 className={sectionTitle}>Inputs</h2>
+                        <div className="overflow-x-auto border-4 border-black bg-white shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+                            <table className="w-full font-mono text-xs font-bold">
+                                <thead className="bg-black text-white uppercase">
+                                    <tr>
+                                        <th className="px-2 py-2 text-left">BTTS Rate</th>
+                                        <th className="px-2 py-2 text-right">{match.homeTeam}</th>
+                                        <th className="px-2 py-2 text-right">{match.awayTeam}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    <InputRow label={`Form (${inputs.halfLifeDays}-day half-life)`} home={pct(inputs.homeForm)} away={pct(inputs.awayForm)} />
+                                    <InputRow label="Overall" home={pct(inputs.homeOverall)} away={pct(inputs.awayOverall)} />
+                                    <InputRow
+                                        label="At this venue"
+                                        home={`${pct(inputs.matchContext.homeTeamBTTSAtHome)} (${inputs.matchContext.homeGamesAtHome})`}
+                                        away={`${pct(inputs.matchContext.awayTeamBTTSAway)} (${inputs.matchContext.awayGamesAway})`}
+                                    />
+                                    <InputRow
+                                        label="Trend"
+                                        home={`${inputs.homeTrend.trend} ${pct(inputs.homeTrend.previous)} → ${pct(inputs.homeTrend.current)}`}
+                                        away={`${inputs.awayTrend.trend} ${pct(inputs.awayTrend.previous)} → ${pct(inputs.awayTrend.current)}`}
+                                    />
+                                    <InputRow
+                                        label="Rest"
+                                        home={`${inputs.matchContext.homeRest.state} (${inputs.matchContext.homeRest.daysRest ?? '—'}d)`}
+                                        away={`${inputs.matchContext.awayRest.state} (${inputs.matchContext.awayRest.daysRest ?? '—'}d)`}
+                                    />
+                                    {(inputs.homeTable || inputs.awayTable) && (
+                                        <InputRow label="Table" home={describeTable(inputs.homeTable)} away={describeTable(inputs.awayTable)} />
+                                    )}
+                                    {(inputs.homeConcentration || inputs.awayConcentration) && (
+                                        <InputRow label="Top scorer share" home={describeConcentration(inputs.homeConcentration)} away={describeConcentration(inputs.awayConcentration)} />
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className="flex flex-wrap gap-3 mt-4 font-mono text-xs font-bold">
+                            <span className="px-3 py-1.5 border-2 border-black bg-white shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+                                WEIGHTS: FORM {pct(inputs.weights.recentForm * 100)} · OVERALL {pct(inputs.weights.overallPerformance * 100)} · HOME +{(inputs.weights.homeAdvantage * 100).toFixed(0)}
+                            </span>
+                            <span className="px-3 py-1.5 border-2 border-black bg-[var(--neo-yellow)] shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] -rotate-1">
+                                H2H: {inputs.headToHead.meetings.length > 0 ? `${pct(inputs.headToHead.bttsRate)} OVER ${inputs.headToHead.meetings.length} MEETINGS · WEIGHT ${pct(inputs.headToHead.weight * 100)}` : 'NO MEETINGS'}
+                            </span>
+                            <span className="px-3 py-1.5 border-2 border-black bg-white shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] rotate-1">
+                                LEAGUE PRIOR: {pct(inputs.leaguePrior.bttsRate)} ({inputs.leaguePrior.sampleSize} GAMES)
+                            </span>
+                            {context.ratings && (
+                                <span className="px-3 py-1.5 border-2 border-black bg-white shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+                                    ELO: {context.ratings.home.toFixed(0)} - {context.ratings.away.toFixed(0)}
+                                </span>
+                            )}
+                        </div>
+                    </section>
+
+                    {/* Markets */}
+                    <section className="neo-box p-4 md:p-8 bg-white">
+                        <h2 className="font-black text-xl uppercase mb-6 border-b-4 border-black pb-4">Markets</h2>
+                        {prediction.result && <ResultMarket result={prediction.result} />}
+                        {prediction.goalLines.length > 0 && <GoalLineLadder goalLines={prediction.goalLines} />}
+                        {prediction.halves && <HalfMarkets halves={prediction.halves} homeTeam={match.homeTeam} awayTeam={match.awayTeam} />}
+                    </section>
+
+                    {grid && fit && (
+                        <section>
+                            <h2 className={sectionTitle}>Correct Score &middot; {poissonModel.label}</h2>
+                            <div className="font-mono text-sm font-bold mb-4">
+                                xG: {match.homeTeam} {fit.expectation.home.toFixed(2)} &middot; {match.awayTeam} {fit.expectation.away.toFixed(2)} ({fit.sampleSize} games)
+                            </div>
+                            <ScoreHeatmap grid={grid} homeTeam={match.homeTeam} awayTeam={match.awayTeam} />
+                            {goalModelMarkets && (
+                                <div className="neo-box p-4 md:p-8 bg-white mt-6">
+                                    <h3 className="font-black text-lg uppercase mb-2">{poissonModel.label} Markets</h3>
+                                    <p className="font-mono text-xs font-bold uppercase mb-6">
+                                        From the same scoreline matrix as the heatmap, not from {model.label} &middot; BTTS {pct(goalModelMarkets.scoring.both * 100)}
+                                    </p>
+                                    <ResultMarket result={goalModelMarkets.result} />
+                                    {goalModelMarkets.goalLines.length > 0 && <GoalLineLadder goalLines={goalModelMarkets.goalLines} />}
+                                </div>
+                            )}
+                        </section>
+                    )}
+
+                    {/* Recent Results */}
+                    <section className="grid md:grid-cols-2 gap-6">
+                        {[homeProfile, awayProfile].map(profile => profile && (
+                            <div key={profile.teamId}>
+                                <h2 className="font-black text-lg uppercase mb-3">
+                                    <Link href={`/teams/${profile.teamId}`} className="hover:underline">{profile.teamName}</Link>
+                                </h2>
+                                <RecentResults results={profile.results} />
+                            </div>
+                        ))}
+                    </section>
+                </div>
+            ) : (
+                <div className="neo-box p-16 text-center bg-gray-100 rotate-1">
+                    <h3 className="text-3xl font-black uppercase mb-4">NO DATA</h3>
+                    <p className="font-mono text-lg">This match could not be loaded. It may not exist or the API is rate limited.</p>
+                </div>
+            )}
+
+            <footer className="mt-24 text-center font-mono text-sm border-t-4 border-black pt-8 pb-8 bg-[var(--neo-bg)]">
+                <p className="font-bold">SPORTYKOKO © 2025</p>
+                <p className="text-xs mt-2">POWERED BY KOKO LABS</p>
+            </footer>
+        </main>
+    );
+}
@@ -24,6 +24,10 @@ export default async function Home() {
             </p>
           </div>
         </div>
+        <Link href="/accuracy" className="relative z-10 inline-flex items-center gap-2 mt-6 neo-button group">
+          MODEL ACCURACY
+          <IconArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
+        </Link>
       </header>
 
       {/* Decorative Elements */}
@@ -0,0 +1,180 @@
+// src/app/teams/[id]/page.tsx
+import Link from 'next/link';
+import { fetchScorers, fetchStandings, fetchTeamFixtures, fetchTeamHistory } from '@/lib/services/dataService';
+import { TeamSplit, buildTeamProfile } from '@/lib/services/teamProfile';
+import { findLeagueCompetitionId } from '@/lib/services/competitionContext';
+import { HIGH_CONCENTRATION_SHARE, calculateGoalConcentration } from '@/lib/services/goalConcentration';
+import { IconArrowRight } from '@/components/Icons';
+
+import RateLimitUpdater from '@/components/RateLimitUpdater';
+import FormSparkline from '@/components/FormSparkline';
+import RecentResults, { outcomeColors } from '@/components/RecentResults';
+
+const SplitCard = ({ title, split, tone }: { title: string; split: TeamSplit; tone: string }) => (
+    <div className={`flex-1 min-w-[45%] md:min-w-0 border-4 border-black p-4 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] ${tone}`}>
+        <div className="font-black text-sm uppercase mb-3">{title} · {split.games} GP</div>
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 font-mono text-xs font-bold">
+            <dt>W-D-L</dt><dd className="text-right">{split.wins}-{split.draws}-{split.losses}</dd>
+            <dt>Goals</dt><dd className="text-right">{split.goalsFor}:{split.goalsAgainst}</dd>
+            <dt>Clean sheets</dt><dd className="text-right">{split.cleanSheets}</dd>
+            <dt>Failed to score</dt><dd className="text-right">{split.failedToScore}</dd>
+            <dt>BTTS</dt><dd className="text-right">{split.bttsRate.toFixed(0)}%</dd>
+        </dl>
+    </div>
+);
+
+export default async function TeamPage({ params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const teamId = parseInt(id);
+
+    const historyResult = await fetchTeamHistory(teamId);
+    const fixturesResult = await fetchTeamFixtures(teamId);
+    const profile = buildTeamProfile(teamId, historyResult.matches);
+
+    // Scorers and team goals are read from the side's league, so cup games don't skew the share
+    const leagueId = findLeagueCompetitionId([...historyResult.matches, ...fixturesResult.matches]);
+    const standingsResult = leagueId !== undefined ? await fetchStandings(leagueId) : null;
+    const scorersResult = leagueId !== undefined ? await fetchScorers(leagueId) : null;
+    const concentration = calculateGoalConcentration(teamId, scorersResult?.scorers ?? [], standingsResult?.standings ?? []);
+
+    const rateLimits = [historyResult.rateLimitInfo, fixturesResult.rateLimitInfo, standingsResult?.rateLimitInfo, scorersResult?.rateLimitInfo];
+    const activeRateLimit = rateLimits.find(r => r?.isRateLimited) || historyResult.rateLimitInfo;
+
+    return (
+        <main className="min-h-screen p-4 md:p-8 max-w-4xl mx-auto bg-[var(--neo-bg)]">
+            <RateLimitUpdater rateLimitInfo={activeRateLimit} />
+            <header className="mb-12 relative z-10">
+                <Link href="/" className="inline-flex items-center gap-2 mb-8 neo-button group">
+                    <IconArrowRight className="w-6 h-6 transform rotate-180 group-hover:-translate-x-1 transition-transform" />
+                    BACK TO LEAGUES
+                </Link>
+
+                <div className="border-4 border-black bg-white p-8 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] relative overflow-hidden">
+                    <h1 className="text-3xl md:text-5xl font-black uppercase tracking-tighter mb-2">
+                        {profile ? profile.teamName : 'TEAM UNAVAILABLE'}
+                    </h1>
+                    <div className="inline-block bg-black text-white px-3 py-1 font-mono text-sm font-bold transform -rotate-1">
+                        TEAM ID: {id}
+                    </div>
+                </div>
+            </header>
+
+            {profile ? (
+                <div className="grid gap-8 relative z-10 mb-12">
+                    {/* Form */}
+                    <section className="neo-box p-4 md:p-8 bg-white">
+                        <h2 className="font-black text-2xl uppercase mb-4">Form</h2>
+                        <div className="flex flex-wrap gap-2 mb-4">
+                            {profile.results.map(r => (
+                                <span key={r.match.id} className={`w-8 h-8 flex items-center justify-center font-black border-2 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] ${outcomeColors[r.outcome]}`}>
+                                    {r.outcome}
+                                </span>
+                            ))}
+                        </div>
+                        <FormSparkline results={profile.results} />
+                        <p className="mt-2 font-mono text-[10px] font-bold uppercase text-gray-500">Goal difference per game, oldest to newest</p>
+                    </section>
+
+                    {/* BTTS */}
+                    <section className="neo-box p-4 md:p-8 bg-white">
+                        <h2 className="font-black text-2xl uppercase mb-4">Both Teams To Score</h2>
+                        <div className="flex flex-wrap gap-3 font-mono text-xs font-bold">
+                            <span className="px-3 py-1.5 border-2 border-black bg-[var(--neo-green)] shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+                                {profile.scoring.bothTeamsScoreRate.toFixed(0)}% BTTS
+                            </span>
+                            {profile.currentStreak && (
+                                <span className="px-3 py-1.5 border-2 border-black bg-[var(--neo-yellow)] shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] -rotate-1">
+                                    {profile.currentStreak.length} IN A ROW {profile.currentStreak.btts ? 'WITH' : 'WITHOUT'} BTTS
+                                </span>
+                            )}
+                            <span className="px-3 py-1.5 border-2 border-black bg-white shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+                                LONGEST BTTS RUN: {profile.longestBTTSRun}
+                            </span>
+                            <span className="px-3 py-1.5 border-2 border-black bg-white shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] rotate-1">
+                                {profile.scoring.averageTotalGoals.toFixed(2)} GOALS/GAME
+                            </span>
+                            <span className="px-3 py-1.5 border-2 border-black bg-[var(--neo-purple)] text-white shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+                                TREND: {profile.trend.trend} ({profile.trend.previous.toFixed(0)}% → {profile.trend.current.toFixed(0)}%)
+                            </span>
+                        </div>
+                    </section>
+
+                    {/* Goal Concentration */}
+                    {concentration && (
+                        <section className="neo-box p-4 md:p-8 bg-white">
+                            <h2 className="font-black text-2xl uppercase mb-4">Goal Concentration</h2>
+                            <div className="flex flex-wrap gap-3 font-mono text-xs font-bold mb-4">
+                                <span className={`px-3 py-1.5 border-2 border-black shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] ${concentration.dependent ? 'bg-[var(--neo-orange)]' : 'bg-[var(--neo-green)]'}`}>
+                                    {(concentration.share * 100).toFixed(0)}% FROM {concentration.topScorer.playerName}
+                                </span>
+                                <span className="px-3 py-1.5 border-2 border-black bg-white shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] -rotate-1">
+                                    {concentration.teamGoals} LEAGUE GOALS
+                                </span>
+                                {concentration.dependent && (
+                                    <span className="px-3 py-1.5 border-2 border-black bg-[var(--neo-yellow)] shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] rotate-1">
+                                        RELIANT ON ONE PLAYER
+                                    </span>
+                                )}
+                            </div>
+                            <div className="grid gap-2">
+                                {concentration.scorers.map(scorer => (
+                                    <div key={scorer.playerId} className="flex items-center gap-3 font-mono text-xs font-bold">
+                                        <span className="w-40 truncate uppercase">{scorer.playerName}</span>
+                                        <div className="flex-1 h-4 border-2 border-black bg-white">
+                                            <div className="h-full bg-[var(--neo-blue)]" style={{ width: `${Math.min(100, (scorer.goals / concentration.teamGoals) * 100)}%` }} />
+                                        </div>
+                                        <span className="w-20 text-right">{scorer.goals} ({scorer.penalties ?? 0} PEN)</span>
+                                    </div>
+                                ))}
+                            </div>
+                            <p className="mt-2 font-mono text-[10px] font-bold uppercase text-gray-500">
+                                Share of league goals; {(HIGH_CONCENTRATION_SHARE * 100).toFixed(0)}% or more from one player counts as reliant
+                            </p>
+                        </section>
+                    )}
+
+                    {/* Splits */}
+                    <section className="flex flex-wrap gap-4">
+                        <SplitCard title="Overall" split={profile.overall} tone="bg-white" />
+                        <SplitCard title="Home" split={profile.home} tone="bg-[var(--neo-blue)] text-white" />
+                        <SplitCard title="Away" split={profile.away} tone="bg-[var(--neo-pink)] text-white" />
+                    </section>
+
+                    {/* Recent Results */}
+                    <section className="neo-box p-4 md:p-8 bg-white">
+                        <h2 className="font-black text-2xl uppercase mb-4">Last {profile.results.length} Results</h2>
+                        <RecentResults results={profile.results} />
+                    </section>
+
+                    {/* Upcoming Fixtures */}
+                    <section className="neo-box p-4 md:p-8 bg-white">
+                        <h2 className="font-black text-2xl uppercase mb-4">Upcoming Fixtures</h2>
+                        {fixturesResult.matches.length > 0 ? (
+                            <div className="grid gap-3">
+                                {fixturesResult.matches.map(m => (
+                                    <Link key={m.id} href={`/matches/${m.id}`} className="flex items-center justify-between gap-4 border-2 border-black px-3 py-2 bg-white shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] hover:bg-[var(--neo-yellow)] group">
+                                        <span className="font-mono text-xs font-bold">{new Date(m.date).toLocaleDateString()}</span>
+                                        <span className="font-black text-sm uppercase flex-1">{m.homeTeam} vs {m.awayTeam}</span>
+                                        <IconArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
+                                    </Link>
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="font-mono text-sm font-bold text-gray-500">No fixtures in the next 30 days.</p>
+                        )}
+                    </section>
+                </div>
+            ) : (
+                <div className="neo-box p-16 text-center bg-gray-100 rotate-1">
+                    <h3 className="text-3xl font-black uppercase mb-4">NO DATA</h3>
+                    <p className="font-mono text-lg">This team has no recent results, or the API is rate limited.</p>
+                </div>
+            )}
+
+            <footer className="mt-24 text-center font-mono text-sm border-t-4 border-black pt-8 pb-8 bg-[var(--neo-bg)]">
+                <p className="font-bold">SPORTYKOKO © 2025</p>
+                <p className="text-xs mt-2">POWERED BY KOKO LABS</p>
+            </footer>
+        </main>
+    );
+}
@@ -0,0 +1,38 @@
+import React from 'react';
+import { AccuracySlice } from '@/lib/services/ledgerAccuracy';
+
+export const AccuracyBreakdown = ({ title, slices }: { title: string; slices: AccuracySlice[] }) => (
+    <div className="mb-8">
+        <h3 className="font-black text-sm uppercase mb-3 transform -rotate-1 inline-block bg-[var(--neo-yellow)] px-2 py-1 border-2 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            {title}
+        </h3>
+        {slices.length === 0 ? (
+            <p className="font-mono text-sm font-bold text-gray-500">No settled picks yet.</p>
+        ) : (
+            <div className="overflow-x-auto border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+                <table className="w-full font-mono text-xs font-bold">
+                    <thead className="bg-black text-white uppercase">
+                        <tr>
+                            <th className="px-2 py-2 text-left">Group</th>
+                            <th className="px-2 py-2 text-right">Settled</th>
+                            <th className="px-2 py-2 text-right">Hit Rate</th>
+                            <th className="px-2 py-2 text-right">Brier</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {slices.map((slice, idx) => (
+                            <tr key={slice.key} className={`border-t-2 border-black ${idx % 2 === 0 ? 'bg-white' : 'bg-gray-100'}`}>
+                                <td className="px-2 py-2 font-black uppercase">{slice.label}</td>
+                                <td className="px-2 py-2 text-right">{slice.settled}</td>
+                                <td className="px-2 py-2 text-right">{slice.hitRate.toFixed(0)}%</td>
+                                <td className="px-2 py-2 text-right">{slice.brierScore.toFixed(3)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )}
+    </div>
+);
+
+export default AccuracyBreakdown;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { ReliabilityBin } from '@/lib/backtest/metrics';
+
+const SIZE = 300;
+const PADDING = 28;
+
+const scale = (value: number) => PADDING + value * (SIZE - 2 * PADDING);
+
+// Predicted probability runs left to right, observed frequency bottom to top; a perfect model sits on the diagonal
+export const CalibrationCurve = ({ bins }: { bins: ReliabilityBin[] }) => {
+    const filled = bins.filter(b => b.count > 0);
+    const maxCount = Math.max(1, ...filled.map(b => b.count));
+    const line = filled.map(b => `${scale(b.meanPredicted).toFixed(1)},${(SIZE - scale(b.observedRate)).toFixed(1)}`).join(' ');
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-sm h-auto border-4 border-black bg-white shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+                <rect x={PADDING} y={PADDING} width={SIZE - 2 * PADDING} height={SIZE - 2 * PADDING} fill="none" stroke="black" strokeWidth={2} />
+                <line x1={scale(0)} y1={SIZE - scale(0)} x2={scale(1)} y2={SIZE - scale(1)} stroke="black" strokeWidth={2} strokeDasharray="6 4" />
+                {[0, 0.5, 1].map(tick => (
+                    <g key={tick}>
+                        <text x={scale(tick)} y={SIZE - 8} textAnchor="middle" className="font-mono text-[10px] font-bold">{tick * 100}</text>
+                        <text x={4} y={SIZE - scale(tick) + 4} className="font-mono text-[10px] font-bold">{tick * 100}</text>
+                    </g>
+                ))}
+                {filled.length > 1 && <polyline points={line} fill="none" stroke="var(--neo-pink)" strokeWidth={3} />}
+                {filled.map(b => (
+                    <circle
+                        key={b.lower}
+                        cx={scale(b.meanPredicted)}
+                        cy={SIZE - scale(b.observedRate)}
+                        r={4 + 6 * (b.count / maxCount)}
+                        fill="var(--neo-yellow)"
+                        stroke="black"
+                        strokeWidth={2}
+                    >
+                        <title>{`${(b.meanPredicted * 100).toFixed(0)}% predicted, ${(b.observedRate * 100).toFixed(0)}% observed (${b.count})`}</title>
+                    </circle>
+                ))}
+            </svg>
+            <p className="mt-2 font-mono text-[10px] font-bold uppercase text-gray-500">Predicted (x) vs observed (y) BTTS rate · dot size = picks</p>
+        </div>
+    );
+};
+
+export default CalibrationCurve;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { EnhancedPrediction } from '@/lib/services/predictionService';
+
+export const ConfidenceBar = ({ interval }: { interval: EnhancedPrediction['confidenceInterval'] }) => (
+    <div className="mb-6">
+        <div className="flex justify-between items-end mb-1">
+            <span className="font-black text-sm uppercase bg-black text-white px-2 py-0.5 transform -rotate-1 inline-block">Confidence</span>
+            <span className="font-mono text-xs font-bold bg-white border-2 border-black px-1">
+                {interval.lower.toFixed(0)}% - {interval.upper.toFixed(0)}%
+            </span>
+        </div>
+        <div className="w-full h-6 border-4 border-black bg-white relative shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+            <div
+                className={`h-full border-r-4 border-black ${interval.confidence === 'HIGH' ? 'bg-[var(--neo-green)]' : interval.confidence === 'MEDIUM' ? 'bg-[var(--neo-yellow)]' : 'bg-[var(--neo-orange)]'}`}
+                style={{
+                    marginLeft: `${interval.lower}%`,
+                    width: `${interval.upper - interval.lower}%`
+                }}
+            />
+        </div>
+        <div className="text-right mt-1">
+            <span className="font-mono text-[10px] font-bold uppercase text-gray-500">Level: {interval.confidence}</span>
+        </div>
+    </div>
+);
+
+export default ConfidenceBar;
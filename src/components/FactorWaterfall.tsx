@@ -0,0 +1,52 @@
+import React from 'react';
+import { PredictionFactor, sumFactors } from '@/lib/services/factorAttribution';
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+const formatContribution = (contribution: number, isBase: boolean) =>
+    isBase ? `${contribution.toFixed(0)}%` : `${contribution > 0 ? '+' : ''}${contribution.toFixed(1)}pp`;
+
+export const FactorWaterfall = ({ factors }: { factors: PredictionFactor[] }) => {
+    // Each bar floats between the running total before and after its factor
+    const steps = factors.map((factor, idx) => {
+        const start = sumFactors(factors.slice(0, idx));
+        const end = start + factor.contribution;
+        return { factor, isBase: factor.isBase ?? false, from: clamp(Math.min(start, end)), to: clamp(Math.max(start, end)) };
+    });
+    const total = sumFactors(factors);
+
+    return (
+        <div className="mb-6">
+            <h4 className="font-black text-sm uppercase mb-3 transform -rotate-1 inline-block bg-[var(--neo-blue)] text-white px-2 py-1 border-2 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+                How We Got Here
+            </h4>
+            <div className="border-2 border-black bg-white p-3 shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] space-y-1.5">
+                {steps.map(({ factor, isBase, from, to }, idx) => (
+                    <div
+                        key={`${factor.id}-${idx}`}
+                        className="flex items-center gap-2"
+                        title={Object.entries(factor.inputs).map(([key, value]) => `${key}: ${typeof value === 'number' ? value.toFixed(2) : value}`).join(', ')}
+                    >
+                        <span className="w-28 md:w-36 shrink-0 font-black text-[10px] uppercase leading-tight truncate">{factor.label}</span>
+                        <div className="relative flex-1 h-4 bg-gray-100 border border-black">
+                            <div
+                                className={`absolute top-0 bottom-0 border-x border-black ${isBase ? 'bg-[var(--neo-blue)]' : factor.contribution > 0 ? 'bg-[var(--neo-green)]' : 'bg-[var(--neo-orange)]'}`}
+                                style={{ left: `${from}%`, width: `${Math.max(to - from, 0.5)}%` }}
+                            />
+                        </div>
+                        <span className="w-14 shrink-0 text-right font-mono text-xs font-bold">{formatContribution(factor.contribution, isBase)}</span>
+                    </div>
+                ))}
+                <div className="flex items-center gap-2 pt-1.5 border-t-2 border-black">
+                    <span className="w-28 md:w-36 shrink-0 font-black text-[10px] uppercase">BTTS</span>
+                    <div className="relative flex-1 h-4 bg-gray-100 border border-black">
+                        <div className="absolute top-0 bottom-0 left-0 bg-black" style={{ width: `${clamp(total)}%` }} />
+                    </div>
+                    <span className="w-14 shrink-0 text-right font-mono text-xs font-bold">{total.toFixed(0)}%</span>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FactorWaterfall;
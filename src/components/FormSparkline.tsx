@@ -0,0 +1,35 @@
+import React from 'react';
+import { TeamResult } from '@/lib/services/teamProfile';
+
+const WIDTH = 300;
+const HEIGHT = 80;
+const PADDING = 10;
+
+const outcomeFill = {
+    W: 'var(--neo-green)',
+    D: 'var(--neo-yellow)',
+    L: 'var(--neo-orange)'
+};
+
+// Goal difference per game, oldest on the left; the dashed line is a draw
+export const FormSparkline = ({ results }: { results: TeamResult[] }) => {
+    const games = [...results].reverse();
+    const maxSwing = Math.max(1, ...games.map(r => Math.abs(r.goalsFor - r.goalsAgainst)));
+    const toX = (idx: number) => games.length === 1 ? WIDTH / 2 : PADDING + (idx / (games.length - 1)) * (WIDTH - 2 * PADDING);
+    const toY = (difference: number) => HEIGHT / 2 - (difference / maxSwing) * (HEIGHT / 2 - PADDING);
+    const line = games.map((r, idx) => `${toX(idx).toFixed(1)},${toY(r.goalsFor - r.goalsAgainst).toFixed(1)}`).join(' ');
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto border-4 border-black bg-white shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+            <line x1={PADDING} x2={WIDTH - PADDING} y1={HEIGHT / 2} y2={HEIGHT / 2} stroke="black" strokeWidth={1} strokeDasharray="4 3" />
+            {games.length > 1 && <polyline points={line} fill="none" stroke="black" strokeWidth={3} strokeLinejoin="round" />}
+            {games.map((r, idx) => (
+                <circle key={r.match.id} cx={toX(idx)} cy={toY(r.goalsFor - r.goalsAgainst)} r={5} fill={outcomeFill[r.outcome]} stroke="black" strokeWidth={2}>
+                    <title>{`${r.goalsFor}-${r.goalsAgainst} vs ${r.opponent}`}</title>
+                </circle>
+            ))}
+        </svg>
+    );
+};
+
+export default FormSparkline;
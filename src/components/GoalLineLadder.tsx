@@ -0,0 +1,32 @@
+import React from 'react';
+import { GoalLineMarket } from '@/lib/services/predictionService';
+
+export const GoalLineLadder = ({ goalLines }: { goalLines: GoalLineMarket[] }) => (
+    <div className="mb-6">
+        <h4 className="font-black text-sm uppercase mb-3 transform -rotate-1 inline-block bg-[var(--neo-blue)] text-white px-2 py-1 border-2 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            Goal Lines
+        </h4>
+        <div className="border-4 border-black bg-white shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+            {/* Highest line on top so the ladder reads like a price board */}
+            {[...goalLines].reverse().map((market, idx) => (
+                <div key={market.line} className={`flex items-center gap-3 px-3 py-2 font-mono text-xs font-bold ${idx > 0 ? 'border-t-2 border-black' : ''}`}>
+                    <span className="w-20 shrink-0 uppercase">O/U {market.line.toFixed(1)}</span>
+                    <div className="flex-1 h-4 border-2 border-black bg-[var(--neo-orange)] relative">
+                        <div
+                            className="h-full bg-[var(--neo-green)] border-r-2 border-black"
+                            style={{ width: `${market.overProbability}%` }}
+                        />
+                    </div>
+                    <span className="w-24 shrink-0 text-right">
+                        {market.overProbability.toFixed(0)}% / {market.underProbability.toFixed(0)}%
+                    </span>
+                </div>
+            ))}
+        </div>
+        <div className="text-right mt-1">
+            <span className="font-mono text-[10px] font-bold uppercase text-gray-500">Over / Under</span>
+        </div>
+    </div>
+);
+
+export default GoalLineLadder;
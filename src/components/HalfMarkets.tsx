@@ -0,0 +1,28 @@
+import React from 'react';
+import { HalfMarkets as HalfMarketsData } from '@/lib/services/halfMarkets';
+
+const HalfCell = ({ label, probability }: { label: string; probability: number }) => (
+    <div className="flex-1 min-w-[45%] md:min-w-0 border-2 border-black p-2 text-center bg-white shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+        <div className="font-black text-[10px] uppercase leading-tight">{label}</div>
+        <div className="font-mono text-lg font-bold">{probability.toFixed(0)}%</div>
+    </div>
+);
+
+export const HalfMarkets = ({ halves, homeTeam, awayTeam }: { halves: HalfMarketsData; homeTeam: string; awayTeam: string }) => (
+    <div className="mb-6">
+        <h4 className="font-black text-sm uppercase mb-3 transform -rotate-1 inline-block bg-[var(--neo-green)] px-2 py-1 border-2 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            Halves
+        </h4>
+        <div className="flex flex-wrap gap-3">
+            <HalfCell label="BTTS 1st Half" probability={halves.bttsFirstHalf} />
+            <HalfCell label="BTTS 2nd Half" probability={halves.bttsSecondHalf} />
+            <HalfCell label={`${homeTeam} scores both halves`} probability={halves.homeScoresBothHalves} />
+            <HalfCell label={`${awayTeam} scores both halves`} probability={halves.awayScoresBothHalves} />
+        </div>
+        <div className="text-right mt-1">
+            <span className="font-mono text-[10px] font-bold uppercase text-gray-500">From {halves.sampleSize} games with half-time scores</span>
+        </div>
+    </div>
+);
+
+export default HalfMarkets;
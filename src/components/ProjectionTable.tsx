@@ -0,0 +1,49 @@
+import React from 'react';
+import { SeasonProjection } from '@/lib/simulation/seasonSimulation';
+
+const OddsCell = ({ value, color }: { value: number; color: string }) => (
+    <td className="px-2 py-2 text-right">
+        <span className={`inline-block min-w-[3rem] px-1 border-2 border-black ${value >= 50 ? color : 'bg-white'}`}>
+            {value < 0.5 && value > 0 ? '<1' : value.toFixed(0)}%
+        </span>
+    </td>
+);
+
+export const ProjectionTable = ({ projection }: { projection: SeasonProjection }) => (
+    <div className="neo-box p-4 md:p-8 bg-white">
+        <h3 className="font-black text-2xl uppercase mb-2">Projected Table</h3>
+        <p className="font-mono text-xs font-bold text-gray-500 mb-6">
+            {projection.iterations.toLocaleString()} SIMULATIONS · {projection.fixturesRemaining} FIXTURES LEFT · SEED {projection.seed}
+        </p>
+        <div className="overflow-x-auto border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+            <table className="w-full font-mono text-xs font-bold">
+                <thead className="bg-black text-white uppercase">
+                    <tr>
+                        <th className="px-2 py-2 text-left">Pos</th>
+                        <th className="px-2 py-2 text-left">Team</th>
+                        <th className="px-2 py-2 text-right">Pts</th>
+                        <th className="px-2 py-2 text-right">Proj</th>
+                        <th className="px-2 py-2 text-right">Title</th>
+                        <th className="px-2 py-2 text-right">Top 4</th>
+                        <th className="px-2 py-2 text-right">Releg.</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {projection.teams.map((team, idx) => (
+                        <tr key={team.teamId} className={`border-t-2 border-black ${idx % 2 === 0 ? 'bg-white' : 'bg-gray-100'}`}>
+                            <td className="px-2 py-2">{team.expectedPosition.toFixed(1)}</td>
+                            <td className="px-2 py-2 font-black uppercase">{team.teamName}</td>
+                            <td className="px-2 py-2 text-right">{team.currentPoints}</td>
+                            <td className="px-2 py-2 text-right">{team.projectedPoints.toFixed(1)}</td>
+                            <OddsCell value={team.titleOdds} color="bg-[var(--neo-yellow)]" />
+                            <OddsCell value={team.topFourOdds} color="bg-[var(--neo-green)]" />
+                            <OddsCell value={team.relegationOdds} color="bg-[var(--neo-orange)]" />
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    </div>
+);
+
+export default ProjectionTable;
@@ -0,0 +1,34 @@
+import React from 'react';
+import Link from 'next/link';
+import { TeamResult } from '@/lib/services/teamProfile';
+
+export const outcomeColors = {
+    W: 'bg-[var(--neo-green)]',
+    D: 'bg-[var(--neo-yellow)]',
+    L: 'bg-[var(--neo-orange)]'
+};
+
+export const RecentResults = ({ results }: { results: TeamResult[] }) => (
+    <div className="overflow-x-auto border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+        <table className="w-full font-mono text-xs font-bold">
+            <tbody>
+                {results.map((r, idx) => (
+                    <tr key={r.match.id} className={`border-t-2 border-black first:border-t-0 ${idx % 2 === 0 ? 'bg-white' : 'bg-gray-100'}`}>
+                        <td className="px-2 py-2">{new Date(r.match.date).toLocaleDateString()}</td>
+                        <td className="px-2 py-2">{r.venue === 'HOME' ? 'H' : 'A'}</td>
+                        <td className="px-2 py-2 font-black uppercase">
+                            <Link href={`/teams/${r.opponentId}`} className="hover:underline">{r.opponent}</Link>
+                        </td>
+                        <td className="px-2 py-2 text-right">{r.goalsFor}-{r.goalsAgainst}</td>
+                        <td className="px-2 py-2 text-right">
+                            <span className={`inline-block w-6 text-center border-2 border-black ${outcomeColors[r.outcome]}`}>{r.outcome}</span>
+                        </td>
+                        <td className="px-2 py-2 text-right">{r.btts ? 'BTTS' : '—'}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+export default RecentResults;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { OutcomeProbability, ResultPrediction } from '@/lib/services/resultPrediction';
+
+const OutcomeCell = ({ label, outcome, highlight }: { label: string; outcome: OutcomeProbability; highlight?: boolean }) => (
+    <div className={`flex-1 border-2 border-black p-2 text-center shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] ${highlight ? 'bg-[var(--neo-yellow)]' : 'bg-white'}`}>
+        <div className="font-black text-lg">{label}</div>
+        <div className="font-mono text-sm font-bold">{outcome.probability.toFixed(0)}%</div>
+        <div className="font-mono text-[10px] font-bold text-gray-500">
+            {outcome.confidenceInterval.lower.toFixed(0)}-{outcome.confidenceInterval.upper.toFixed(0)}%
+        </div>
+    </div>
+);
+
+export const ResultMarket = ({ result }: { result: ResultPrediction }) => (
+    <div className="mb-6">
+        <h4 className="font-black text-sm uppercase mb-3 transform rotate-1 inline-block bg-[var(--neo-pink)] text-white px-2 py-1 border-2 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            Match Result
+        </h4>
+        <div className="flex gap-3 mb-3">
+            <OutcomeCell label="1" outcome={result.home} highlight={result.mostLikely === 'HOME'} />
+            <OutcomeCell label="X" outcome={result.draw} highlight={result.mostLikely === 'DRAW'} />
+            <OutcomeCell label="2" outcome={result.away} highlight={result.mostLikely === 'AWAY'} />
+        </div>
+        <div className="flex gap-3">
+            <OutcomeCell label="1X" outcome={result.doubleChance.homeOrDraw} />
+            <OutcomeCell label="12" outcome={result.doubleChance.homeOrAway} />
+            <OutcomeCell label="X2" outcome={result.doubleChance.drawOrAway} />
+        </div>
+    </div>
+);
+
+export default ResultMarket;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { RollingPoint } from '@/lib/services/ledgerAccuracy';
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 24;
+
+const toY = (hitRate: number) => PADDING + (1 - hitRate / 100) * (HEIGHT - 2 * PADDING);
+
+export const RollingAccuracyChart = ({ points, window }: { points: RollingPoint[]; window: number }) => {
+    if (points.length < 2) {
+        return <p className="font-mono text-sm font-bold text-gray-500">Not enough settled picks for a trend yet.</p>;
+    }
+
+    const toX = (idx: number) => PADDING + (idx / (points.length - 1)) * (WIDTH - 2 * PADDING);
+    const line = points.map((p, idx) => `${toX(idx).toFixed(1)},${toY(p.hitRate).toFixed(1)}`).join(' ');
+    const last = points[points.length - 1];
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto border-4 border-black bg-white shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+                {[0, 50, 100].map(rate => (
+                    <g key={rate}>
+                        <line x1={PADDING} x2={WIDTH - PADDING} y1={toY(rate)} y2={toY(rate)} stroke="black" strokeWidth={rate === 50 ? 2 : 1} strokeDasharray={rate === 50 ? '6 4' : undefined} />
+                        <text x={4} y={toY(rate) + 4} className="font-mono text-[10px] font-bold">{rate}</text>
+                    </g>
+                ))}
+                <polyline points={line} fill="none" stroke="var(--neo-purple)" strokeWidth={4} strokeLinejoin="round" />
+                <circle cx={toX(points.length - 1)} cy={toY(last.hitRate)} r={6} fill="var(--neo-yellow)" stroke="black" strokeWidth={3} />
+            </svg>
+            <div className="flex justify-between mt-2 font-mono text-[10px] font-bold uppercase text-gray-500">
+                <span>{new Date(points[0].date).toLocaleDateString()}</span>
+                <span>Last {window} settled picks · now {last.hitRate.toFixed(0)}%</span>
+                <span>{new Date(last.date).toLocaleDateString()}</span>
+            </div>
+        </div>
+    );
+};
+
+export default RollingAccuracyChart;
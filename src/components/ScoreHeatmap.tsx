@@ -0,0 +1,50 @@
+import React from 'react';
+import { CorrectScoreGrid } from '@/lib/services/goalModel';
+
+export const ScoreHeatmap = ({ grid, homeTeam, awayTeam }: { grid: CorrectScoreGrid; homeTeam: string; awayTeam: string }) => {
+    const peak = Math.max(...grid.scores.flat(), 1e-9);
+    const goals = Array.from({ length: grid.maxGoals + 1 }, (_, i) => i);
+
+    return (
+        <div className="border-4 border-black bg-white p-4 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] overflow-x-auto">
+            <div className="font-mono text-xs font-bold uppercase mb-3">
+                Rows: {homeTeam} goals &middot; Columns: {awayTeam} goals
+            </div>
+            <table className="border-collapse font-mono text-xs font-bold">
+                <thead>
+                    <tr>
+                        <th className="w-10 h-10 border-2 border-black bg-black text-white">H\A</th>
+                        {goals.map(away => (
+                            <th key={away} className="w-14 h-10 border-2 border-black bg-[var(--neo-pink)] text-white">{away}</th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {goals.map(home => (
+                        <tr key={home}>
+                            <th className="w-10 h-10 border-2 border-black bg-[var(--neo-blue)] text-white">{home}</th>
+                            {goals.map(away => {
+                                const p = grid.scores[home][away];
+                                return (
+                                    <td
+                                        key={away}
+                                        className="w-14 h-10 border-2 border-black text-center"
+                                        style={{ backgroundColor: `rgba(255, 222, 0, ${Math.min(1, p / peak)})` }}
+                                        title={`${home}-${away}: ${p.toFixed(1)}%`}
+                                    >
+                                        {p.toFixed(1)}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div className="mt-3 inline-block font-mono text-xs font-bold border-2 border-black px-2 py-1 bg-gray-100">
+                OTHER SCORES: {grid.other.toFixed(1)}%
+            </div>
+        </div>
+    );
+};
+
+export default ScoreHeatmap;
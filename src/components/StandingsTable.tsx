@@ -0,0 +1,86 @@
+import React from 'react';
+import Link from 'next/link';
+import { StandingRow } from '@/lib/services/dataService';
+import { findTableStanding } from '@/lib/services/tableContext';
+
+const formColors: Record<string, string> = {
+    W: 'bg-[var(--neo-green)]',
+    D: 'bg-[var(--neo-yellow)]',
+    L: 'bg-[var(--neo-orange)]'
+};
+
+const GroupTable = ({ title, rows, standings }: { title?: string; rows: StandingRow[]; standings: StandingRow[] }) => (
+    <div className="mb-6 last:mb-0">
+        {title && <h4 className="font-black text-sm uppercase mb-2">{title.replace(/_/g, ' ')}</h4>}
+        <div className="overflow-x-auto border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+            <table className="w-full font-mono text-xs font-bold">
+                <thead className="bg-black text-white uppercase">
+                    <tr>
+                        <th className="px-2 py-2 text-left">Pos</th>
+                        <th className="px-2 py-2 text-left">Team</th>
+                        <th className="px-2 py-2 text-right">P</th>
+                        <th className="px-2 py-2 text-right">W-D-L</th>
+                        <th className="px-2 py-2 text-right">GD</th>
+                        <th className="px-2 py-2 text-right">Pts</th>
+                        <th className="px-2 py-2 text-left">Form</th>
+                        <th className="px-2 py-2 text-right">Stakes</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map((row, idx) => {
+                        const standing = findTableStanding(row.teamId, standings);
+                        return (
+                            <tr key={row.teamId} className={`border-t-2 border-black ${idx % 2 === 0 ? 'bg-white' : 'bg-gray-100'}`}>
+                                <td className="px-2 py-2">{row.position}</td>
+                                <td className="px-2 py-2 font-black uppercase">
+                                    <Link href={`/teams/${row.teamId}`} className="hover:underline">{row.teamName}</Link>
+                                </td>
+                                <td className="px-2 py-2 text-right">{row.playedGames}</td>
+                                <td className="px-2 py-2 text-right">{row.won}-{row.draw}-{row.lost}</td>
+                                <td className="px-2 py-2 text-right">{row.goalDifference > 0 ? '+' : ''}{row.goalDifference}</td>
+                                <td className="px-2 py-2 text-right font-black">{row.points}</td>
+                                <td className="px-2 py-2">
+                                    <div className="flex gap-0.5">
+                                        {(row.form ?? '').split(',').filter(Boolean).map((outcome, formIdx) => (
+                                            <span key={formIdx} className={`inline-block w-4 text-center border border-black ${formColors[outcome] ?? 'bg-white'}`}>{outcome}</span>
+                                        ))}
+                                    </div>
+                                </td>
+                                <td className="px-2 py-2 text-right">
+                                    {standing?.nothingToPlayFor ? (
+                                        <span className="inline-block px-1 border-2 border-black bg-gray-300">NOTHING</span>
+                                    ) : (
+                                        standing?.stakes.join(' · ')
+                                    )}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    </div>
+);
+
+export const StandingsTable = ({ standings }: { standings: StandingRow[] }) => {
+    const groups = Array.from(new Set(standings.map(row => row.group)));
+
+    return (
+        <div className="neo-box p-4 md:p-8 bg-white">
+            <h3 className="font-black text-2xl uppercase mb-2">Standings</h3>
+            <p className="font-mono text-xs font-bold text-gray-500 mb-6">
+                STAKES: RACES EACH SIDE CAN STILL MATHEMATICALLY WIN OR LOSE
+            </p>
+            {groups.map(group => (
+                <GroupTable
+                    key={group ?? 'table'}
+                    title={group}
+                    rows={standings.filter(row => row.group === group)}
+                    standings={standings}
+                />
+            ))}
+        </div>
+    );
+};
+
+export default StandingsTable;
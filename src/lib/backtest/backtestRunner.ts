@@ -0,0 +1,127 @@
+// src/lib/backtest/backtestRunner.ts
+
+import { Match } from '../services/dataService';
+import { PredictionModel } from '../models/predictionModel';
+import { ELO_INITIAL_RATING, calculateEloChange } from '../services/eloRating';
+import { isNeutralVenue } from '../services/competitionContext';
+import { ForecastMetrics, ScoredSample, summarizeForecasts } from './metrics';
+
+export interface BacktestOptions {
+    model: PredictionModel;
+    historySize?: number; // most recent games per team handed to the model, like fetchTeamHistory's limit
+    minHistory?: number; // fixtures where either team has fewer prior games are skipped
+}
+
+export interface BacktestSample extends ScoredSample {
+    matchId: number;
+    competitionId?: number;
+    date: string;
+    homeTeam: string;
+    awayTeam: string;
+}
+
+export interface BacktestReport {
+    generatedAt: string;
+    fixturesReplayed: number;
+    fixturesSkipped: number;
+    overall: ForecastMetrics;
+    byCompetition: Record<string, ForecastMetrics>;
+    samples: BacktestSample[];
+}
+
+const DEFAULT_HISTORY_SIZE = 10;
+const DEFAULT_MIN_HISTORY = 3;
+
+const isScored = (m: Match): boolean =>
+    m.status === 'FINISHED' && m.score.home !== null && m.score.away !== null;
+
+/**
+ * Replays finished fixtures oldest first. Each prediction only sees games that
+ * kicked off before it, and Elo ratings are rebuilt as the replay advances,
+ * so no result leaks into a forecast for an earlier date.
+ */
+export const runBacktest = (matches: Match[], options: BacktestOptions): BacktestReport => {
+    const historySize = options.historySize ?? DEFAULT_HISTORY_SIZE;
+    const minHistory = options.minHistory ?? DEFAULT_MIN_HISTORY;
+
+    const fixtures = Array.from(new Map(matches.filter(isScored).map(m => [m.id, m])).values())
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    // Games already played, per team, oldest first
+    const playedByTeam = new Map<number, Match[]>();
+    const ratings = new Map<number, number>();
+    const samples: BacktestSample[] = [];
+    let fixturesSkipped = 0;
+
+    const recentFor = (teamId: number): Match[] =>
+        (playedByTeam.get(teamId) || []).slice(-historySize).reverse();
+
+    fixtures.forEach(fixture => {
+        const homePlayed = playedByTeam.get(fixture.homeTeamId) || [];
+        const awayPlayed = playedByTeam.get(fixture.awayTeamId) || [];
+
+        if (homePlayed.length >= minHistory && awayPlayed.length >= minHistory) {
+            const headToHead = homePlayed
+                .filter(m => m.homeTeamId === fixture.awayTeamId || m.awayTeamId === fixture.awayTeamId)
+                .reverse();
+            // Hide the result from the model
+            const upcoming: Match = { ...fixture, status: 'SCHEDULED', score: { home: null, away: null } };
+
+            const prediction = options.model.predict(upcoming, {
+                homeHistory: recentFor(fixture.homeTeamId),
+                awayHistory: recentFor(fixture.awayTeamId),
+                headToHead,
+                ratings: {
+                    home: ratings.get(fixture.homeTeamId) ?? ELO_INITIAL_RATING,
+                    away: ratings.get(fixture.awayTeamId) ?? ELO_INITIAL_RATING
+                }
+            });
+
+            samples.push({
+                matchId: fixture.id,
+                competitionId: fixture.competitionId,
+                date: fixture.date,
+                homeTeam: fixture.homeTeam,
+                awayTeam: fixture.awayTeam,
+                probability: prediction.bttsProbability / 100,
+                outcome: (fixture.score.home || 0) > 0 && (fixture.score.away || 0) > 0 ? 1 : 0,
+                pick: prediction.prediction === 'YES' ? 1 : 0
+            });
+        } else {
+            fixturesSkipped++;
+        }
+
+        // Only now does the result become "known"
+        playedByTeam.set(fixture.homeTeamId, homePlayed);
+        playedByTeam.set(fixture.awayTeamId, awayPlayed);
+        homePlayed.push(fixture);
+        awayPlayed.push(fixture);
+
+        const homeRating = ratings.get(fixture.homeTeamId) ?? ELO_INITIAL_RATING;
+        const awayRating = ratings.get(fixture.awayTeamId) ?? ELO_INITIAL_RATING;
+        const change = calculateEloChange(homeRating, awayRating, fixture.score.home || 0, fixture.score.away || 0, isNeutralVenue(fixture));
+        ratings.set(fixture.homeTeamId, homeRating + change);
+        ratings.set(fixture.awayTeamId, awayRating - change);
+    });
+
+    const byCompetitionSamples = new Map<string, BacktestSample[]>();
+    samples.forEach(s => {
+        const key = s.competitionId !== undefined ? String(s.competitionId) : 'unknown';
+        if (!byCompetitionSamples.has(key)) byCompetitionSamples.set(key, []);
+        byCompetitionSamples.get(key)!.push(s);
+    });
+
+    const byCompetition: Record<string, ForecastMetrics> = {};
+    byCompetitionSamples.forEach((competitionSamples, key) => {
+        byCompetition[key] = summarizeForecasts(competitionSamples);
+    });
+
+    return {
+        generatedAt: new Date().toISOString(),
+        fixturesReplayed: samples.length,
+        fixturesSkipped,
+        overall: summarizeForecasts(samples),
+        byCompetition,
+        samples
+    };
+};
@@ -0,0 +1,69 @@
+// src/lib/backtest/metrics.ts
+
+export interface ScoredSample {
+    probability: number; // predicted P(YES), 0 to 1
+    outcome: 0 | 1; // 1 when the event happened
+    pick?: 0 | 1; // the model's own YES/NO call, when it uses a cut-off other than 50%
+}
+
+export interface ReliabilityBin {
+    lower: number; // bin bounds on the predicted probability, 0 to 1
+    upper: number;
+    count: number;
+    meanPredicted: number;
+    observedRate: number;
+}
+
+export interface ForecastMetrics {
+    samples: number;
+    hitRate: number; // share of picks on the right side of the threshold, 0 to 1
+    brierScore: number; // lower is better, 0.25 = coin flip
+    logLoss: number; // lower is better, ~0.693 = coin flip
+    reliability: ReliabilityBin[];
+}
+
+// Keeps log loss finite when a model says 0% or 100%
+const LOG_LOSS_EPSILON = 1e-6;
+
+export const calculateBrierScore = (samples: ScoredSample[]): number =>
+    samples.length === 0
+        ? 0
+        : samples.reduce((sum, s) => sum + Math.pow(s.probability - s.outcome, 2), 0) / samples.length;
+
+export const calculateLogLoss = (samples: ScoredSample[]): number => {
+    if (samples.length === 0) return 0;
+    const total = samples.reduce((sum, s) => {
+        const p = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, s.probability));
+        return sum - (s.outcome === 1 ? Math.log(p) : Math.log(1 - p));
+    }, 0);
+    return total / samples.length;
+};
+
+export const calculateHitRate = (samples: ScoredSample[], threshold: number = 0.5): number =>
+    samples.length === 0
+        ? 0
+        : samples.filter(s => (s.pick ?? (s.probability > threshold ? 1 : 0)) === s.outcome).length / samples.length;
+
+export const buildReliabilityTable = (samples: ScoredSample[], binCount: number = 10): ReliabilityBin[] =>
+    Array.from({ length: binCount }, (_, i) => {
+        const lower = i / binCount;
+        const upper = (i + 1) / binCount;
+        // The last bin is closed so p = 1.0 lands somewhere
+        const inBin = samples.filter(s => s.probability >= lower && (s.probability < upper || (i === binCount - 1 && s.probability <= upper)));
+
+        return {
+            lower,
+            upper,
+            count: inBin.length,
+            meanPredicted: inBin.length > 0 ? inBin.reduce((sum, s) => sum + s.probability, 0) / inBin.length : 0,
+            observedRate: inBin.length > 0 ? inBin.filter(s => s.outcome === 1).length / inBin.length : 0
+        };
+    });
+
+export const summarizeForecasts = (samples: ScoredSample[], threshold: number = 0.5): ForecastMetrics => ({
+    samples: samples.length,
+    hitRate: calculateHitRate(samples, threshold),
+    brierScore: calculateBrierScore(samples),
+    logLoss: calculateLogLoss(samples),
+    reliability: buildReliabilityTable(samples)
+});
@@ -95,6 +95,22 @@ export class CacheInvalidationService {
         });
     }
 
+    /**
+     * Invalidate league tables, for one competition or all of them
+     */
+    static async invalidateStandings(competitionId?: number): Promise<void> {
+        if (competitionId) {
+            await this.invalidateCache({
+                invalidateByKeys: [`${CACHE_KEYS.STANDINGS}competition_${competitionId}`]
+            });
+            return;
+        }
+
+        await this.invalidateCache({
+            invalidateByPrefix: [CACHE_KEYS.STANDINGS]
+        });
+    }
+
     /**
      * Invalidate team-specific cache entries
      */
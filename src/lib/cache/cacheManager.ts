@@ -318,6 +318,8 @@ export const CACHE_KEYS = {
   TEAM_HISTORY: 'team_history_',
   HEAD_TO_HEAD: 'head_to_head_',
   MATCHES: 'matches_',
+  STANDINGS: 'standings_',
+  SCORERS: 'scorers_',
   PREDICTIONS: 'predictions_',
   ANALYTICS: 'analytics_'
 } as const;
@@ -327,6 +329,8 @@ export const CACHE_TTL = {
   TEAM_HISTORY: 6 * 60 * 60 * 1000,   // 6 hours
   HEAD_TO_HEAD: 12 * 60 * 60 * 1000,  // 12 hours
   MATCHES: 5 * 60 * 1000,             // 5 minutes
+  STANDINGS: 30 * 60 * 1000,          // 30 minutes
+  SCORERS: 60 * 60 * 1000,            // 1 hour
   PREDICTIONS: 2 * 60 * 60 * 1000,    // 2 hours
   ANALYTICS: 1 * 60 * 60 * 1000       // 1 hour
 } as const;
\ No newline at end of file
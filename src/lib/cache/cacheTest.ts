@@ -1,7 +1,7 @@
 // src/lib/cache/cacheTest.ts
 
 import { cacheManager, CACHE_KEYS, CACHE_TTL } from './cacheManager';
-import { fetchCompetitions, fetchTeamHistory, fetchHeadToHead } from '../services/dataServiceCached';
+import { fetchCompetitions, fetchTeamHistory, fetchHeadToHead } from '../services/dataService';
 import { invalidateCache, getCacheStatus, recoverFromCacheError } from './cacheInvalidation';
 
 interface TestResult {
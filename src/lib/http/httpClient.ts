@@ -0,0 +1,98 @@
+// src/lib/http/httpClient.ts
+
+export interface HttpRequest {
+    url: string;
+    headers: Record<string, string>;
+    revalidate?: number; // Next.js data cache lifetime in seconds
+    cache?: { key: string; ttl: number }; // opt-in for the caching middleware
+    map: (body: unknown) => unknown; // turns the JSON body into our own types
+}
+
+export type HttpFailure = 'RATE_LIMITED' | 'HTTP_ERROR' | 'NETWORK_ERROR' | 'MAPPING_ERROR';
+
+export type HttpResponse =
+    | { ok: true; status: number; headers?: Headers; data: unknown; fromCache?: boolean }
+    | { ok: false; status: number | null; headers?: Headers; failure: HttpFailure; error?: string };
+
+export type HttpResult<T> =
+    | { ok: true; data: T; fromCache: boolean }
+    | { ok: false; status: number | null; failure: HttpFailure };
+
+export type Next = (request: HttpRequest) => Promise<HttpResponse>;
+
+// A middleware sees the request on the way in and the response on the way out
+export type Middleware = (request: HttpRequest, next: Next) => Promise<HttpResponse>;
+
+export interface GetOptions<T> {
+    map: (body: unknown) => T;
+    revalidate?: number;
+    cache?: { key: string; ttl: number };
+}
+
+export interface HttpClient {
+    get: <T>(path: string, options: GetOptions<T>) => Promise<HttpResult<T>>;
+}
+
+// The end of every chain: one fetch, with network failures turned into a response
+const send: Next = async (request) => {
+    try {
+        const res = await fetch(request.url, {
+            headers: request.headers,
+            next: request.revalidate !== undefined ? { revalidate: request.revalidate } : undefined
+        });
+
+        if (!res.ok) {
+            return { ok: false, status: res.status, headers: res.headers, failure: 'HTTP_ERROR' };
+        }
+
+        return { ok: true, status: res.status, headers: res.headers, data: await res.json() };
+    } catch (error) {
+        console.error(`[httpClient] ${request.url} failed:`, error);
+        return { ok: false, status: null, failure: 'NETWORK_ERROR', error: error instanceof Error ? error.message : String(error) };
+    }
+};
+
+// Runs the request's mapper over a fresh body; cached responses are already mapped.
+// A payload the mapper cannot read fails the request rather than the caller.
+export const mapResponse: Middleware = async (request, next) => {
+    const response = await next(request);
+    if (!response.ok || response.fromCache) return response;
+
+    try {
+        return { ...response, data: request.map(response.data) };
+    } catch (error) {
+        console.warn(`[httpClient] ${request.url} returned a payload that could not be mapped:`, error);
+        return { ok: false, status: response.status, headers: response.headers, failure: 'MAPPING_ERROR', error: error instanceof Error ? error.message : String(error) };
+    }
+};
+
+export const compose = (middleware: Middleware[], handler: Next): Next =>
+    middleware.reduceRight<Next>((next, layer) => (request) => layer(request, next), handler);
+
+/**
+ * A GET-only client whose requests pass through `middleware` in order,
+ * outermost first. Response mapping always runs innermost, so every layer
+ * above it, the cache included, deals in mapped data.
+ */
+export const createHttpClient = ({ baseUrl, middleware }: { baseUrl: string; middleware: Middleware[] }): HttpClient => {
+    const handle = compose([...middleware, mapResponse], send);
+
+    return {
+        get: async <T>(path: string, options: GetOptions<T>): Promise<HttpResult<T>> => {
+            const response = await handle({
+                url: `${baseUrl}${path}`,
+                headers: {},
+                revalidate: options.revalidate,
+                cache: options.cache,
+                map: options.map
+            });
+
+            if (!response.ok) {
+                return { ok: false, status: response.status, failure: response.failure };
+            }
+
+            // mapResponse applied options.map, so the data has the mapper's type
+            return { ok: true, data: response.data as T, fromCache: response.fromCache ?? false };
+        }
+    };
+};
@@ -0,0 +1,73 @@
+// src/lib/http/middleware.ts
+import type { CacheManager } from '../cache/cacheManager';
+import type { Middleware } from './httpClient';
+import type { RateLimiter } from './rateLimiter';
+
+export const authHeader = (header: string, token: string): Middleware => (request, next) =>
+    next({ ...request, headers: { ...request.headers, [header]: token } });
+
+/**
+ * Refuses to send once the limiter's budget is spent, and counts every
+ * request that does go out. Sits inside retry so each attempt is counted.
+ */
+export const rateLimit = (limiter: RateLimiter): Middleware => async (request, next) => {
+    if (limiter.check().isRateLimited) {
+        return { ok: false, status: null, failure: 'RATE_LIMITED' };
+    }
+
+    limiter.record();
+    const response = await next(request);
+
+    if (response.headers) limiter.observe(response.status ?? 0, response.headers);
+    return !response.ok && response.status === 429 ? { ...response, failure: 'RATE_LIMITED' } : response;
+};
+
+// Serves requests that carry a cache key from the cache manager, and stores successful ones
+export const caching = (cache: CacheManager): Middleware => async (request, next) => {
+    if (!request.cache) return next(request);
+
+    try {
+        const cached = await cache.get<unknown>(request.cache.key);
+        if (cached !== null) return { ok: true, status: 200, data: cached, fromCache: true };
+    } catch (error) {
+        console.warn(`Cache check failed for key ${request.cache.key}:`, error);
+    }
+
+    const response = await next(request);
+
+    if (response.ok && !response.fromCache) {
+        try {
+            await cache.set(request.cache.key, response.data, { ttl: request.cache.ttl, persistToStorage: true });
+        } catch (error) {
+            console.warn(`Cache set failed for key ${request.cache.key}:`, error);
+        }
+    }
+
+    return response;
+};
+
+// Tries again after network errors and server errors; a 429 or a 4xx will not get better
+export const retry = ({ retries, delayMs }: { retries: number; delayMs: number }): Middleware => async (request, next) => {
+    let response = await next(request);
+
+    for (let attempt = 1; attempt <= retries; attempt++) {
+        const transient = !response.ok && (response.failure === 'NETWORK_ERROR' || (response.status ?? 0) >= 500);
+        if (!transient) break;
+
+        await new Promise(resolve => setTimeout(resolve, delayMs * attempt));
+        response = await next(request);
+    }
+
+    return response;
+};
+
+export const logging = (prefix: string): Middleware => async (request, next) => {
+    const started = Date.now();
+    const response = await next(request);
+    const outcome = response.ok
+        ? (response.fromCache ? 'cache hit' : `${response.status}`)
+        : `${response.failure}${response.status ? ` ${response.status}` : ''}`;
+
+    console.log(`[${prefix}] GET ${request.url} -> ${outcome} (${Date.now() - started}ms)`);
+    return response;
+};
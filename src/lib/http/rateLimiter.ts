@@ -0,0 +1,118 @@
+// src/lib/http/rateLimiter.ts
+
+export interface RateLimitInfo {
+    isRateLimited: boolean;
+    resetTime?: string;
+    remainingRequests?: number;
+    cooldownMinutes?: number;
+}
+
+export interface RateLimiterOptions {
+    windowMs: number;
+    maxRequests: number;
+}
+
+export interface RateLimiter {
+    check: () => RateLimitInfo; // also refreshes the state getInfo reports
+    record: () => void;
+    observe: (status: number, headers: Headers) => void; // reads the server's own counters off a response
+    getInfo: () => RateLimitInfo;
+    reset: () => void;
+}
+
+/**
+ * Client-side request budget: counts our own requests in a sliding window so
+ * we stop before the server does, and defers to its headers once it answers.
+ */
+export const createRateLimiter = ({ windowMs, maxRequests }: RateLimiterOptions): RateLimiter => {
+    const requests = new Map<string, { timestamp: number; count: number }>();
+    let info: RateLimitInfo = {
+        isRateLimited: false,
+        resetTime: undefined,
+        remainingRequests: undefined
+    };
+
+    const check = (): RateLimitInfo => {
+        const now = Date.now();
+        const windowStart = now - windowMs;
+
+        // Clean old entries
+        for (const [key, entry] of requests.entries()) {
+            if (entry.timestamp < windowStart) {
+                requests.delete(key);
+            }
+        }
+
+        const recentRequests = Array.from(requests.values())
+            .reduce((sum, entry) => sum + entry.count, 0);
+
+        if (recentRequests >= maxRequests) {
+            const oldestRequest = Math.min(...Array.from(requests.values()).map(e => e.timestamp));
+            const resetTime = new Date(oldestRequest + windowMs);
+            const cooldownMinutes = Math.ceil((resetTime.getTime() - now) / (60 * 1000));
+
+            info = {
+                isRateLimited: true,
+                resetTime: resetTime.toISOString(),
+                remainingRequests: 0,
+                cooldownMinutes
+            };
+
+            return { ...info };
+        }
+
+        info = {
+            isRateLimited: false,
+            remainingRequests: maxRequests - recentRequests
+        };
+
+        return { ...info };
+    };
+
+    const record = (): void => {
+        const now = Date.now();
+        const key = `${now}`;
+        const existing = requests.get(key);
+
+        if (existing) {
+            existing.count++;
+        } else {
+            requests.set(key, { timestamp: now, count: 1 });
+        }
+    };
+
+    const observe = (status: number, headers: Headers): void => {
+        const remaining = headers.get('X-Requests-Available-Minute');
+        const resetTime = headers.get('X-RequestCounter-Reset');
+
+        if (status === 429) {
+            const resetDate = resetTime ? new Date(parseInt(resetTime) * 1000) : new Date(Date.now() + 60 * 1000);
+            const cooldownMinutes = Math.ceil((resetDate.getTime() - Date.now()) / (60 * 1000));
+
+            info = {
+                isRateLimited: true,
+                resetTime: resetDate.toISOString(),
+                remainingRequests: 0,
+                cooldownMinutes
+            };
+        } else if (remaining) {
+            info = {
+                ...info,
+                remainingRequests: parseInt(remaining),
+                isRateLimited: false,
+                resetTime: undefined
+            };
+        }
+    };
+
+    const reset = (): void => {
+        info = {
+            isRateLimited: false,
+            resetTime: undefined,
+            remainingRequests: undefined
+        };
+        requests.clear();
+    };
+
+    return { check, record, observe, getInfo: () => ({ ...info }), reset };
+};
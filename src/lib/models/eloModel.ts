@@ -0,0 +1,80 @@
+// src/lib/models/eloModel.ts
+import { ELO_INITIAL_RATING, calculateGoalSupremacy } from '../services/eloRating';
+import { describeCompetition, isNeutralVenue } from '../services/competitionContext';
+import { buildScoreMatrix, calculateLeagueBaseline, deriveMarketsFromMatrix } from '../services/goalModel';
+import {
+    BTTS_YES_THRESHOLD,
+    assessRiskLevel,
+    calculateConfidenceInterval
+} from '../services/predictionService';
+import { PredictionFactor, buildReasoning, recordBase } from '../services/factorAttribution';
+import { analyzeHeadToHead } from '../services/headToHead';
+import { defineModel } from './predictionModel';
+
+// Even a hopeless side is given some chance of scoring
+const MIN_EXPECTED_GOALS = 0.2;
+
+/**
+ * Ratings decide how the goals are shared, the histories decide how many there are:
+ * the Elo supremacy splits the league's average total into two Poisson means.
+ */
+export const eloModel = defineModel({
+    id: 'elo',
+    version: '1.0.0',
+    label: 'Elo Supremacy',
+    predict: (match, { homeHistory, awayHistory, headToHead = [], ratings }) => {
+        const homeRating = ratings?.home ?? ELO_INITIAL_RATING;
+        const awayRating = ratings?.away ?? ELO_INITIAL_RATING;
+
+        const baseline = calculateLeagueBaseline([...homeHistory, ...awayHistory]);
+        const totalGoals = baseline.homeGoals + baseline.awayGoals;
+        const supremacy = calculateGoalSupremacy(homeRating, awayRating, isNeutralVenue(match));
+        const expectation = {
+            home: Math.max(MIN_EXPECTED_GOALS, (totalGoals + supremacy) / 2),
+            away: Math.max(MIN_EXPECTED_GOALS, (totalGoals - supremacy) / 2)
+        };
+
+        const sampleSize = baseline.sampleSize;
+        const markets = deriveMarketsFromMatrix(buildScoreMatrix(expectation), sampleSize);
+        const factors: PredictionFactor[] = [];
+        const probability = recordBase(factors, 'eloSupremacy', 'Elo supremacy', Math.min(100, Math.max(0, markets.scoring.both * 100)), {
+            homeRating,
+            awayRating,
+            supremacy,
+            totalGoals
+        });
+
+        const confidenceInterval = calculateConfidenceInterval(probability, sampleSize);
+        const h2h = analyzeHeadToHead(match.homeTeamId, match.awayTeamId, headToHead, { referenceDate: match.date });
+
+        const keyFactors: string[] = [
+            `Elo: Home ${homeRating.toFixed(0)} - Away ${awayRating.toFixed(0)}`,
+            `Supremacy ${supremacy >= 0 ? '+' : ''}${supremacy.toFixed(2)} goals on a ${totalGoals.toFixed(2)}-goal average`
+        ];
+        if (Math.abs(supremacy) >= 0.75) {
+            keyFactors.push(`${supremacy > 0 ? match.homeTeam : match.awayTeam} rated far stronger`);
+        }
+        if (h2h.meetings.length > 0) keyFactors.push(`H2H: ${h2h.bttsRate.toFixed(0)}% BTTS`);
+
+        const sufficientData = sampleSize >= 5;
+        const competition = describeCompetition(match);
+
+        return {
+            matchId: match.id,
+            homeTeam: match.homeTeam,
+            awayTeam: match.awayTeam,
+            bttsProbability: probability,
+            prediction: probability > BTTS_YES_THRESHOLD ? 'YES' : 'NO',
+            confidenceInterval,
+            h2hBTTS: h2h.meetings.length > 0 ? h2h.bttsRate : undefined,
+            riskLevel: assessRiskLevel(confidenceInterval),
+            keyFactors,
+            dataQuality: { sufficientData, warning: !sufficientData ? 'Limited historical data available' : undefined },
+            goalLines: markets.goalLines,
+            result: markets.result,
+            factors,
+            competition,
+            reasoning: buildReasoning(competition, factors, confidenceInterval.confidence)
+        };
+    }
+});
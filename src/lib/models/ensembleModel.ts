@@ -0,0 +1,159 @@
+// src/lib/models/ensembleModel.ts
+import { Match } from '../services/dataService';
+import { BTTS_YES_THRESHOLD, EnhancedPrediction, GoalLineMarket, assessRiskLevel } from '../services/predictionService';
+import { buildResultPrediction } from '../services/resultPrediction';
+import { PredictionFactor, buildReasoning, recordFactor } from '../services/factorAttribution';
+import { describeCompetition } from '../services/competitionContext';
+import { PredictionModel, defineModel } from './predictionModel';
+import { heuristicModel } from './heuristicModel';
+import { poissonModel } from './poissonModel';
+import { eloModel } from './eloModel';
+
+export interface EnsembleMember {
+    model: PredictionModel;
+    weight: number; // fixed weight, used until learned weights are supplied
+}
+
+export interface EnsembleOptions {
+    id: string;
+    version: string;
+    label: string;
+}
+
+type Confidence = EnhancedPrediction['confidenceInterval']['confidence'];
+
+// Log-loss gap (nats per forecast) that shrinks a member's learned weight by a factor of e
+export const ENSEMBLE_TEMPERATURE = 0.02;
+// Member spread in percentage points above which disagreement is called out and confidence drops
+const DISAGREEMENT_THRESHOLD = 10;
+
+const CONFIDENCE_LEVELS: Confidence[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+/**
+ * Softmax over negative backtest log loss: the best member keeps full weight
+ * and every other member decays with its gap to the best.
+ */
+export const calculateEnsembleWeights = (logLosses: Record<string, number>): Record<string, number> => {
+    const ids = Object.keys(logLosses);
+    if (ids.length === 0) return {};
+
+    const best = Math.min(...ids.map(id => logLosses[id]));
+    const raw = ids.map(id => Math.exp(-(logLosses[id] - best) / ENSEMBLE_TEMPERATURE));
+    const total = raw.reduce((sum, w) => sum + w, 0);
+
+    return Object.fromEntries(ids.map((id, i) => [id, raw[i] / total]));
+};
+
+// Learned weights only replace the fixed ones when they cover every member
+const resolveWeights = (members: EnsembleMember[], learned?: Record<string, number>): { weights: number[]; learned: boolean } => {
+    const useLearned = learned !== undefined && members.every(m => (learned[m.model.id] ?? 0) > 0);
+    const raw = members.map(m => (useLearned ? learned![m.model.id] : m.weight));
+    const total = raw.reduce((sum, w) => sum + w, 0);
+
+    return {
+        weights: raw.map(w => (total > 0 ? w / total : 1 / members.length)),
+        learned: useLearned
+    };
+};
+
+const blendGoalLines = (predictions: EnhancedPrediction[], weights: number[]): GoalLineMarket[] => {
+    const lines = new Map<number, { over: number; weight: number }>();
+    predictions.forEach((p, i) => p.goalLines.forEach(market => {
+        const entry = lines.get(market.line) || { over: 0, weight: 0 };
+        entry.over += market.overProbability * weights[i];
+        entry.weight += weights[i];
+        lines.set(market.line, entry);
+    }));
+
+    return Array.from(lines.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([line, { over, weight }]) => {
+            const overProbability = over / weight;
+            return { line, overProbability, underProbability: 100 - overProbability };
+        });
+};
+
+const countFinished = (matches: Match[]): number => matches.filter(m => m.status === 'FINISHED').length;
+
+export const createEnsembleModel = (members: EnsembleMember[], options: EnsembleOptions): PredictionModel => defineModel({
+    ...options,
+    predict: (match, context) => {
+        // Members report raw output; only the blend is calibrated
+        const memberContext = { ...context, calibration: undefined };
+        const predictions = members.map(m => m.model.predict(match, memberContext));
+        const { weights, learned } = resolveWeights(members, context.ensembleWeights);
+
+        // Each member's share of the blend is its own factor, so the waterfall shows who moved the number
+        const factors: PredictionFactor[] = [];
+        const probability = predictions.reduce((sum, p, i) => recordFactor(
+            factors, `member:${members[i].model.id}`, members[i].model.label, sum, sum + p.bttsProbability * weights[i],
+            { probability: p.bttsProbability, weight: weights[i] }
+        ), 0);
+        const spread = Math.sqrt(predictions.reduce((sum, p, i) => sum + weights[i] * Math.pow(p.bttsProbability - probability, 2), 0));
+
+        // Each member's own uncertainty, widened by how far apart the members sit
+        const memberHalfWidth = predictions.reduce(
+            (sum, p, i) => sum + ((p.confidenceInterval.upper - p.confidenceInterval.lower) / 2) * weights[i], 0
+        );
+        const halfWidth = memberHalfWidth + spread;
+
+        const lowestConfidence = Math.min(...predictions.map(p => CONFIDENCE_LEVELS.indexOf(p.confidenceInterval.confidence)));
+        const confidence = CONFIDENCE_LEVELS[Math.max(0, lowestConfidence - (spread >= DISAGREEMENT_THRESHOLD ? 1 : 0))];
+
+        const confidenceInterval = {
+            lower: Math.max(0, probability - halfWidth),
+            upper: Math.min(100, probability + halfWidth),
+            confidence
+        };
+
+        const keyFactors = members.map((m, i) =>
+            `${m.model.label}: ${predictions[i].bttsProbability.toFixed(0)}% × ${(weights[i] * 100).toFixed(0)}% = ${(predictions[i].bttsProbability * weights[i]).toFixed(1)}pp`
+        );
+        keyFactors.push(`${learned ? 'Backtest-learned' : 'Fixed'} weights, member spread ±${spread.toFixed(0)}pp`);
+        if (spread >= DISAGREEMENT_THRESHOLD) keyFactors.push(`Models disagree (±${spread.toFixed(0)}pp)`);
+
+        const withResult = predictions.map((p, i) => ({ result: p.result, weight: weights[i] })).filter(r => r.result);
+        const result = withResult.length > 0
+            ? buildResultPrediction({
+                home: withResult.reduce((sum, r) => sum + r.result!.home.probability * r.weight, 0),
+                draw: withResult.reduce((sum, r) => sum + r.result!.draw.probability * r.weight, 0),
+                away: withResult.reduce((sum, r) => sum + r.result!.away.probability * r.weight, 0)
+            }, countFinished(context.homeHistory) + countFinished(context.awayHistory))
+            : undefined;
+
+        const warning = predictions.find(p => p.dataQuality.warning)?.dataQuality.warning;
+        // The heuristic member also knows the aggregate score of a tie, so prefer its wording
+        const competition = predictions.find(p => p.competition)?.competition ?? describeCompetition(match);
+
+        return {
+            matchId: match.id,
+            homeTeam: match.homeTeam,
+            awayTeam: match.awayTeam,
+            bttsProbability: probability,
+            prediction: probability > BTTS_YES_THRESHOLD ? 'YES' : 'NO',
+            confidenceInterval,
+            h2hBTTS: predictions.find(p => p.h2hBTTS !== undefined)?.h2hBTTS,
+            riskLevel: assessRiskLevel(confidenceInterval),
+            keyFactors,
+            dataQuality: { sufficientData: predictions.every(p => p.dataQuality.sufficientData), warning },
+            goalLines: blendGoalLines(predictions, weights),
+            result,
+            factors,
+            competition,
+            reasoning: buildReasoning(competition, factors, confidence)
+        };
+    }
+});
+
+// The ratings-only model is the coarsest of the three, so it starts with the smallest say
+export const ENSEMBLE_MEMBERS: EnsembleMember[] = [
+    { model: heuristicModel, weight: 0.4 },
+    { model: poissonModel, weight: 0.4 },
+    { model: eloModel, weight: 0.2 }
+];
+
+export const ensembleModel = createEnsembleModel(ENSEMBLE_MEMBERS, {
+    id: 'ensemble',
+    version: '1.0.0',
+    label: 'Ensemble'
+});
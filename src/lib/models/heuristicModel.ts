@@ -0,0 +1,14 @@
+// src/lib/models/heuristicModel.ts
+import { generateEnhancedPrediction } from '../services/predictionService';
+import { predictResult } from '../services/resultPrediction';
+import { defineModel } from './predictionModel';
+
+export const heuristicModel = defineModel({
+    id: 'heuristic',
+    version: '1.0.0',
+    label: 'Form Heuristic',
+    predict: (match, { homeHistory, awayHistory, headToHead, ...context }) => ({
+        ...generateEnhancedPrediction(match, homeHistory, awayHistory, headToHead, context),
+        result: predictResult(match, homeHistory, awayHistory)
+    })
+});
@@ -0,0 +1,11 @@
+// src/lib/models/poissonModel.ts
+import { generateGoalModelPrediction } from '../services/goalModel';
+import { defineModel } from './predictionModel';
+
+export const poissonModel = defineModel({
+    id: 'poisson',
+    version: '1.0.0',
+    label: 'Poisson / Dixon-Coles',
+    predict: (match, { homeHistory, awayHistory, headToHead }) =>
+        generateGoalModelPrediction(match, homeHistory, awayHistory, headToHead)
+});
@@ -0,0 +1,41 @@
+// src/lib/models/predictionModel.ts
+import { Match } from '../services/dataService';
+import { EnhancedPrediction, PredictionContext } from '../services/predictionService';
+import { calibratePrediction } from '../services/calibration';
+import { predictHalfMarkets } from '../services/halfMarkets';
+
+export interface ModelInfo {
+    id: string;
+    version: string; // bump whenever the model's output for the same inputs changes
+}
+
+// Everything a model may look at besides the fixture itself
+export interface ModelContext extends PredictionContext {
+    homeHistory: Match[];
+    awayHistory: Match[];
+    headToHead?: Match[];
+    ensembleWeights?: Record<string, number>; // learned member weights, keyed by model id
+}
+
+export interface PredictionModel extends ModelInfo {
+    label: string;
+    predict: (match: Match, context: ModelContext) => EnhancedPrediction;
+}
+
+/**
+ * Wraps a raw predict function so every prediction is stamped with the model
+ * that produced it, and calibrated when the caller supplies a fitted map.
+ * Models without their own per-half view get the empirical half markets.
+ */
+export const defineModel = (definition: PredictionModel): PredictionModel => ({
+    ...definition,
+    predict: (match, context) => {
+        const raw = definition.predict(match, context);
+        const prediction = context.calibration ? calibratePrediction(raw, context.calibration) : raw;
+        return {
+            ...prediction,
+            halves: prediction.halves ?? predictHalfMarkets(match, context.homeHistory, context.awayHistory),
+            model: { id: definition.id, version: definition.version }
+        };
+    }
+});
@@ -0,0 +1,28 @@
+// src/lib/models/registry.ts
+import { PredictionModel } from './predictionModel';
+import { heuristicModel } from './heuristicModel';
+import { poissonModel } from './poissonModel';
+import { eloModel } from './eloModel';
+import { ensembleModel } from './ensembleModel';
+
+export const DEFAULT_MODEL_ID = 'heuristic';
+
+const models = new Map<string, PredictionModel>();
+
+// Registering under an existing id replaces it, so an experiment can shadow a built-in
+export const registerModel = (model: PredictionModel): void => {
+    models.set(model.id, model);
+};
+
+[heuristicModel, poissonModel, eloModel, ensembleModel].forEach(registerModel);
+
+export const listModels = (): PredictionModel[] => Array.from(models.values());
+
+export const isModelId = (value: unknown): value is string =>
+    typeof value === 'string' && models.has(value);
+
+export const getModel = (id: string): PredictionModel | undefined => models.get(id);
+
+// Unknown or missing model names fall back to the default rather than erroring
+export const resolveModel = (name?: string | null): PredictionModel =>
+    (isModelId(name) && models.get(name)) || models.get(DEFAULT_MODEL_ID)!;
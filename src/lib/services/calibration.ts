@@ -0,0 +1,107 @@
+// src/lib/services/calibration.ts
+import {
+    BTTS_CALIBRATED_THRESHOLD,
+    EnhancedPrediction,
+    assessRiskLevel
+} from './predictionService';
+import { ScoredSample } from '../backtest/metrics';
+import { PredictionFactor, buildReasoning, recordFactor } from './factorAttribution';
+
+export interface CalibrationPoint {
+    raw: number; // model output, 0 to 100
+    calibrated: number; // observed frequency at that output, 0 to 100
+}
+
+export interface CalibrationModel {
+    modelId: string; // prediction model whose raw output this map corrects
+    version: number;
+    method: 'isotonic';
+    fittedAt: string;
+    sampleSize: number;
+    points: CalibrationPoint[];
+}
+
+// Below this many settled forecasts the step function is mostly noise
+export const MIN_CALIBRATION_SAMPLES = 50;
+
+/**
+ * Pool-adjacent-violators: the best-fitting non-decreasing map from raw
+ * probability to observed hit rate. Each pooled block becomes one knot.
+ */
+export const fitIsotonicCalibration = (samples: ScoredSample[], modelId: string, version: number): CalibrationModel => {
+    if (samples.length < MIN_CALIBRATION_SAMPLES) {
+        throw new Error(`Need at least ${MIN_CALIBRATION_SAMPLES} settled forecasts to calibrate, got ${samples.length}`);
+    }
+
+    const sorted = [...samples].sort((a, b) => a.probability - b.probability);
+    const blocks: { rawSum: number; outcomeSum: number; count: number }[] = [];
+
+    sorted.forEach(s => {
+        blocks.push({ rawSum: s.probability, outcomeSum: s.outcome, count: 1 });
+        // Merge backwards while the block means decrease
+        while (blocks.length > 1) {
+            const last = blocks[blocks.length - 1];
+            const previous = blocks[blocks.length - 2];
+            if (previous.outcomeSum / previous.count <= last.outcomeSum / last.count) break;
+            blocks.splice(blocks.length - 2, 2, {
+                rawSum: previous.rawSum + last.rawSum,
+                outcomeSum: previous.outcomeSum + last.outcomeSum,
+                count: previous.count + last.count
+            });
+        }
+    });
+
+    return {
+        modelId,
+        version,
+        method: 'isotonic',
+        fittedAt: new Date().toISOString(),
+        sampleSize: samples.length,
+        points: blocks.map(b => ({
+            raw: (b.rawSum / b.count) * 100,
+            calibrated: (b.outcomeSum / b.count) * 100
+        }))
+    };
+};
+
+// Linear interpolation between knots; flat beyond the first and last one
+export const applyCalibration = (model: CalibrationModel, rawProbability: number): number => {
+    const points = model.points;
+    if (points.length === 0) return rawProbability;
+    if (rawProbability <= points[0].raw) return points[0].calibrated;
+    if (rawProbability >= points[points.length - 1].raw) return points[points.length - 1].calibrated;
+
+    const upperIndex = points.findIndex(p => p.raw >= rawProbability);
+    const lower = points[upperIndex - 1];
+    const upper = points[upperIndex];
+    const span = upper.raw - lower.raw;
+    const t = span > 0 ? (rawProbability - lower.raw) / span : 0;
+
+    return lower.calibrated + t * (upper.calibrated - lower.calibrated);
+};
+
+export const calibratePrediction = (prediction: EnhancedPrediction, model: CalibrationModel): EnhancedPrediction => {
+    const rawProbability = prediction.bttsProbability;
+    const factors: PredictionFactor[] = [...prediction.factors];
+    const bttsProbability = recordFactor(factors, 'calibration', `Calibration v${model.version}`, rawProbability,
+        applyCalibration(model, rawProbability), { rawProbability });
+
+    // The map is monotonic, so pushing the interval bounds through it keeps them ordered
+    const confidenceInterval = {
+        ...prediction.confidenceInterval,
+        lower: Math.min(bttsProbability, applyCalibration(model, prediction.confidenceInterval.lower)),
+        upper: Math.max(bttsProbability, applyCalibration(model, prediction.confidenceInterval.upper))
+    };
+
+    return {
+        ...prediction,
+        bttsProbability,
+        // A calibrated probability means what it says, so the call flips at even odds
+        prediction: bttsProbability > BTTS_CALIBRATED_THRESHOLD ? 'YES' : 'NO',
+        confidenceInterval,
+        riskLevel: assessRiskLevel(confidenceInterval),
+        calibration: { version: model.version, rawProbability },
+        factors,
+        reasoning: buildReasoning(prediction.competition, factors, confidenceInterval.confidence)
+    };
+};
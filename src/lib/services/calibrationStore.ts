@@ -0,0 +1,32 @@
+// src/lib/services/calibrationStore.ts
+
+import { JsonFileStore } from '../storage/jsonFileStore';
+import { ScoredSample } from '../backtest/metrics';
+import { CalibrationModel, fitIsotonicCalibration } from './calibration';
+
+interface CalibrationState {
+    models: CalibrationModel[];
+}
+
+const calibrationFile = new JsonFileStore<CalibrationState>('calibration.json', () => ({ models: [] }));
+
+export const listCalibrations = (modelId?: string): CalibrationModel[] =>
+    calibrationFile.read().models.filter(m => modelId === undefined || m.modelId === modelId);
+
+// The newest version for a model is the one applied to live predictions
+export const getActiveCalibration = (modelId: string): CalibrationModel | undefined =>
+    listCalibrations(modelId).reduce<CalibrationModel | undefined>(
+        (latest, m) => (!latest || m.version > latest.version ? m : latest),
+        undefined
+    );
+
+export const fitAndStoreCalibration = (modelId: string, samples: ScoredSample[]): CalibrationModel => {
+    const nextVersion = (getActiveCalibration(modelId)?.version ?? 0) + 1;
+    const model = fitIsotonicCalibration(samples, modelId, nextVersion);
+
+    calibrationFile.update(state => {
+        state.models.push(model);
+    });
+
+    return model;
+};
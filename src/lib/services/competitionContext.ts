@@ -0,0 +1,79 @@
+// src/lib/services/competitionContext.ts
+import { Match } from './dataService';
+
+export interface AggregateScore {
+    firstLegId: number;
+    home: number; // first-leg goals of the side at home in the second leg
+    away: number;
+}
+
+// Stages played over two legs in the major European cups
+const TWO_LEGGED_STAGES = ['PLAYOFFS', 'PLAYOFF_ROUND', 'LAST_32', 'LAST_16', 'QUARTER_FINALS', 'SEMI_FINALS'];
+// The latest a first leg can be before its return fixture
+const MAX_DAYS_BETWEEN_LEGS = 42;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const getCompetitionType = (match: Match): string => match.competitionType ?? 'LEAGUE';
+
+// Finals are staged at a pre-chosen ground, so neither side is really at home
+export const isNeutralVenue = (match: Match): boolean => match.stage === 'FINAL';
+
+export const isKnockoutStage = (match: Match): boolean =>
+    match.stage !== undefined && match.stage !== 'REGULAR_SEASON' && match.stage !== 'GROUP_STAGE' && match.stage !== 'LEAGUE_STAGE';
+
+/**
+ * A second leg is the return fixture of a finished game between the same two
+ * sides, same competition and stage, with the venues swapped.
+ */
+export const findAggregateScore = (match: Match, history: Match[]): AggregateScore | undefined => {
+    if (!match.stage || !TWO_LEGGED_STAGES.includes(match.stage)) return undefined;
+
+    const kickoff = new Date(match.date).getTime();
+    const firstLeg = history.find(m =>
+        m.status === 'FINISHED'
+        && m.id !== match.id
+        && m.stage === match.stage
+        && m.competitionId === match.competitionId
+        && m.homeTeamId === match.awayTeamId
+        && m.awayTeamId === match.homeTeamId
+        && m.score.home !== null && m.score.away !== null
+        && kickoff - new Date(m.date).getTime() > 0
+        && kickoff - new Date(m.date).getTime() <= MAX_DAYS_BETWEEN_LEGS * MS_PER_DAY
+    );
+
+    if (!firstLeg) return undefined;
+
+    return {
+        firstLegId: firstLeg.id,
+        home: firstLeg.score.away!,
+        away: firstLeg.score.home!
+    };
+};
+
+/**
+ * Percentage points of BTTS for the state of the tie. A side a goal or two
+ * down has to come out, which opens the game up at both ends; a level tie
+ * tends to be cagey; a three-goal margin is usually settled and nothing changes.
+ */
+export const calculateAggregateAdjustment = (aggregate: AggregateScore): number => {
+    const margin = Math.abs(aggregate.home - aggregate.away);
+    if (margin === 0) return -2;
+    if (margin <= 2) return 4;
+    return 0;
+};
+
+export const describeCompetition = (match: Match, aggregate?: AggregateScore): string => {
+    const parts = [getCompetitionType(match)];
+    if (match.stage && match.stage !== 'REGULAR_SEASON') parts.push(match.stage.replace(/_/g, ' '));
+    if (isKnockoutStage(match)) parts.push('knockout');
+    if (isNeutralVenue(match)) parts.push('neutral venue');
+    if (aggregate) parts.push(`second leg, first leg ${aggregate.away}-${aggregate.home}`);
+    return parts.join(', ');
+};
+
+// A side's domestic league is the competition of its most recent league game
+export const findLeagueCompetitionId = (matches: Match[]): number | undefined =>
+    [...matches]
+        .filter(m => getCompetitionType(m) === 'LEAGUE' && m.competitionId !== undefined)
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0]?.competitionId;
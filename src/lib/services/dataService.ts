@@ -1,6 +1,15 @@
 // src/lib/services/dataService.ts
 
 import { cacheManager, CACHE_KEYS, CACHE_TTL } from '../cache/cacheManager';
+import type { RateLimitInfo } from '../http/rateLimiter';
+import { getFootballDataClient, getRateLimitInfo } from './footballDataClient';
+import { recordFinishedMatches } from './eloStore';
+import { archiveMatches } from './matchArchive';
+import { settleLedger } from './predictionLedger';
+
+export type { RateLimitInfo } from '../http/rateLimiter';
+export { configureFootballData, getRateLimitInfo, resetRateLimit } from './footballDataClient';
+
 export interface Match {
     id: number;
     homeTeam: string;
@@ -9,12 +18,20 @@ export interface Match {
     awayTeamId: number;
     date: string;
     status: string;
-    score: {
-        home: number | null;
-        away: number | null;
+    competitionId?: number;
+    competitionType?: string; // LEAGUE, CUP or PLAYOFFS as football-data reports it
+    stage?: string; // REGULAR_SEASON, GROUP_STAGE, LAST_16, ..., FINAL
+    score: ScoreLine & {
+        halfTime?: ScoreLine;
+        regularTime?: ScoreLine; // 90-minute score, only sent when the game went to extra time
     };
 }
 
+export interface ScoreLine {
+    home: number | null;
+    away: number | null;
+}
+
 export interface Competition {
     id: number;
     name: string;
@@ -22,304 +39,348 @@ export interface Competition {
     code: string;
 }
 
-const API_KEY = process.env.FOOTBALL_DATA_API_KEY;
-const BASE_URL = 'https://api.football-data.org/v4';
+export interface StandingRow {
+    position: number;
+    teamId: number;
+    teamName: string;
+    crest?: string;
+    group?: string; // set when the competition splits its table into groups
+    playedGames: number;
+    won: number;
+    draw: number;
+    lost: number;
+    points: number;
+    goalsFor: number;
+    goalsAgainst: number;
+    goalDifference: number;
+    form?: string; // comma separated W/D/L, when the plan includes it
+}
 
-if (!API_KEY) {
-    console.error("FOOTBALL_DATA_API_KEY is not set in environment variables.");
+export interface Scorer {
+    playerId: number;
+    playerName: string;
+    teamId: number;
+    teamName: string;
+    playedMatches: number;
+    goals: number;
+    assists: number | null;
+    penalties: number | null;
 }
 
-const headers = {
-    'X-Auth-Token': API_KEY || '',
-};
+// The API returns the top 10 by default; this reaches every side's leading scorer
+const SCORERS_LIMIT = 100;
 
-// Rate limit management
-export interface RateLimitInfo {
-    isRateLimited: boolean;
-    resetTime?: string;
-    remainingRequests?: number;
-    cooldownMinutes?: number;
+interface ApiScore {
+    fullTime: ScoreLine;
+    halfTime?: ScoreLine;
+    regularTime?: ScoreLine;
 }
 
-let rateLimitInfo: RateLimitInfo = {
-    isRateLimited: false,
-    resetTime: undefined,
-    remainingRequests: undefined
-};
+interface ApiStanding {
+    type: 'TOTAL' | 'HOME' | 'AWAY';
+    group: string | null;
+    table: (Omit<StandingRow, 'teamId' | 'teamName' | 'crest' | 'group' | 'form'> & {
+        team: { id: number; name: string; crest?: string };
+        form: string | null;
+    })[];
+}
+
+// Only the overall table is kept; HOME and AWAY tables repeat the same teams per venue
+const mapStandings = (standings: ApiStanding[]): StandingRow[] =>
+    standings
+        .filter(s => s.type === 'TOTAL')
+        .flatMap(s => s.table.map(t => ({
+            position: t.position,
+            teamId: t.team.id,
+            teamName: t.team.name,
+            crest: t.team.crest,
+            group: s.group ?? undefined,
+            playedGames: t.playedGames,
+            won: t.won,
+            draw: t.draw,
+            lost: t.lost,
+            points: t.points,
+            goalsFor: t.goalsFor,
+            goalsAgainst: t.goalsAgainst,
+            goalDifference: t.goalDifference,
+            form: t.form ?? undefined
+        })));
+
+interface ApiScorer {
+    player: { id: number; name: string };
+    team: { id: number; name: string };
+    playedMatches: number;
+    goals: number;
+    assists: number | null;
+    penalties: number | null;
+}
 
-// Simple in-memory rate limit tracking
-const requestCache = new Map<string, { timestamp: number; count: number }>();
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute in milliseconds
-const MAX_REQUESTS_PER_WINDOW = 10; // Conservative limit
+const mapScorer = (s: ApiScorer): Scorer => ({
+    playerId: s.player.id,
+    playerName: s.player.name,
+    teamId: s.team.id,
+    teamName: s.team.name,
+    playedMatches: s.playedMatches,
+    goals: s.goals,
+    assists: s.assists,
+    penalties: s.penalties
+});
+
+// Half-time is sent as nulls until the interval, so only keep it once it exists
+const mapScore = (score: ApiScore): Match['score'] => ({
+    home: score.fullTime.home,
+    away: score.fullTime.away,
+    halfTime: score.halfTime && score.halfTime.home !== null ? { home: score.halfTime.home, away: score.halfTime.away } : undefined,
+    regularTime: score.regularTime && score.regularTime.home !== null ? { home: score.regularTime.home, away: score.regularTime.away } : undefined
+});
+
+interface ApiMatch {
+    id: number;
+    utcDate: string;
+    status: string;
+    stage?: string;
+    homeTeam: { id: number; name: string };
+    awayTeam: { id: number; name: string };
+    competition?: { id: number; type?: string };
+    score: ApiScore;
+}
 
-const checkRateLimit = (): RateLimitInfo => {
-    const now = Date.now();
-    const windowStart = now - RATE_LIMIT_WINDOW;
+interface ApiCompetition {
+    id: number;
+    name: string;
+    emblem: string;
+    code: string;
+}
 
-    // Clean old entries
-    for (const [key, entry] of requestCache.entries()) {
-        if (entry.timestamp < windowStart) {
-            requestCache.delete(key);
+const mapMatch = (m: ApiMatch): Match => ({
+    id: m.id,
+    homeTeam: m.homeTeam.name,
+    homeTeamId: m.homeTeam.id,
+    awayTeam: m.awayTeam.name,
+    awayTeamId: m.awayTeam.id,
+    date: m.utcDate,
+    status: m.status,
+    competitionId: m.competition?.id,
+    competitionType: m.competition?.type,
+    stage: m.stage,
+    score: mapScore(m.score)
+});
+
+// List endpoints leave the array out when there is nothing to return
+const mapMatches = (body: unknown): Match[] => ((body as { matches?: ApiMatch[] }).matches ?? []).map(mapMatch);
+
+const mapSingleMatch = (body: unknown): Match | null => (body as ApiMatch | null)?.id ? mapMatch(body as ApiMatch) : null;
+
+const mapCompetitions = (body: unknown): Competition[] =>
+    ((body as { competitions?: ApiCompetition[] }).competitions ?? []).map(c => ({
+        id: c.id,
+        name: c.name,
+        emblem: c.emblem,
+        code: c.code
+    }));
+
+const mapStandingsBody = (body: unknown): StandingRow[] => mapStandings((body as { standings?: ApiStanding[] }).standings ?? []);
+
+const mapScorers = (body: unknown): Scorer[] => ((body as { scorers?: ApiScorer[] }).scorers ?? []).map(mapScorer);
+
+const isoDate = (offsetDays: number): string =>
+    new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+// Every result we see feeds the backtest archive and the team ratings built from it, and settles logged picks.
+// Cached responses were observed when they were first fetched. Each store is written on its own,
+// so a failed write is logged without failing the fetch or skipping the other stores.
+const observeMatches = (matches: Match[]): void => {
+    const observers: [string, (matches: Match[]) => void][] = [
+        ['archive', archiveMatches],
+        ['ratings', recordFinishedMatches],
+        ['ledger', settleLedger]
+    ];
+
+    for (const [name, observe] of observers) {
+        try {
+            observe(matches);
+        } catch (error) {
+            console.error(`[observeMatches] Failed to update the ${name}:`, error);
         }
     }
+};
+
+export const fetchCompetitions = async (): Promise<{ competitions: Competition[], rateLimitInfo: RateLimitInfo }> => {
+    // Fetch available competitions (tier one)
+    const result = await getFootballDataClient().get('/competitions?plan=TIER_ONE', {
+        map: mapCompetitions,
+        revalidate: 86400,
+        cache: { key: CACHE_KEYS.COMPETITIONS, ttl: CACHE_TTL.COMPETITIONS }
+    });
+
+    return { competitions: result.ok ? result.data : [], rateLimitInfo: getRateLimitInfo() };
+};
 
-    const recentRequests = Array.from(requestCache.values())
-        .filter(entry => entry.timestamp >= windowStart)
-        .reduce((sum, entry) => sum + entry.count, 0);
+export const fetchUpcomingMatches = async (competitionId?: number): Promise<{ matches: Match[], rateLimitInfo: RateLimitInfo }> => {
+    // For a competition, the next two weeks of its fixtures; otherwise the default window across subscribed competitions
+    const path = competitionId
+        ? `/competitions/${competitionId}/matches?dateFrom=${isoDate(0)}&dateTo=${isoDate(14)}`
+        : '/matches';
+    const result = await getFootballDataClient().get(path, {
+        map: mapMatches,
+        revalidate: 60,
+        cache: {
+            key: competitionId ? `${CACHE_KEYS.MATCHES}competition_${competitionId}` : `${CACHE_KEYS.MATCHES}all`,
+            ttl: CACHE_TTL.MATCHES
+        }
+    });
 
-    if (recentRequests >= MAX_REQUESTS_PER_WINDOW) {
-        const oldestRequest = Math.min(...Array.from(requestCache.values()).map(e => e.timestamp));
-        const resetTime = new Date(oldestRequest + RATE_LIMIT_WINDOW);
-        const cooldownMinutes = Math.ceil((resetTime.getTime() - now) / (60 * 1000));
+    if (result.ok && !result.fromCache) observeMatches(result.data);
 
-        rateLimitInfo = {
-            isRateLimited: true,
-            resetTime: resetTime.toISOString(),
-            remainingRequests: 0,
-            cooldownMinutes
-        };
+    return { matches: result.ok ? result.data : [], rateLimitInfo: getRateLimitInfo() };
+};
 
-        return rateLimitInfo;
-    }
+// Every fixture of the competition's current season, played and still to play
+export const fetchSeasonMatches = async (competitionId: number): Promise<{ matches: Match[], rateLimitInfo: RateLimitInfo }> => {
+    const result = await getFootballDataClient().get(`/competitions/${competitionId}/matches`, {
+        map: mapMatches,
+        revalidate: 300,
+        cache: { key: `${CACHE_KEYS.MATCHES}season_${competitionId}`, ttl: CACHE_TTL.MATCHES }
+    });
 
-    rateLimitInfo = {
-        isRateLimited: false,
-        remainingRequests: MAX_REQUESTS_PER_WINDOW - recentRequests
-    };
+    if (result.ok && !result.fromCache) observeMatches(result.data);
 
-    return rateLimitInfo;
+    return { matches: result.ok ? result.data : [], rateLimitInfo: getRateLimitInfo() };
 };
 
-const recordRequest = (): void => {
-    const now = Date.now();
-    const key = `${now}`;
-    const existing = requestCache.get(key);
+export const fetchStandings = async (competitionId: number): Promise<{ standings: StandingRow[], rateLimitInfo: RateLimitInfo }> => {
+    const result = await getFootballDataClient().get(`/competitions/${competitionId}/standings`, {
+        map: mapStandingsBody,
+        revalidate: 1800,
+        cache: { key: `${CACHE_KEYS.STANDINGS}competition_${competitionId}`, ttl: CACHE_TTL.STANDINGS }
+    });
 
-    if (existing) {
-        existing.count++;
-    } else {
-        requestCache.set(key, { timestamp: now, count: 1 });
-    }
+    return { standings: result.ok ? result.data : [], rateLimitInfo: getRateLimitInfo() };
 };
 
-const handleRateLimitResponse = (response: Response): void => {
-    const remaining = response.headers.get('X-Requests-Available-Minute');
-    const resetTime = response.headers.get('X-RequestCounter-Reset');
-
-    if (response.status === 429) {
-        const resetDate = resetTime ? new Date(parseInt(resetTime) * 1000) : new Date(Date.now() + 60 * 1000);
-        const cooldownMinutes = Math.ceil((resetDate.getTime() - Date.now()) / (60 * 1000));
-
-        rateLimitInfo = {
-            isRateLimited: true,
-            resetTime: resetDate.toISOString(),
-            remainingRequests: 0,
-            cooldownMinutes
-        };
-    } else if (remaining) {
-        rateLimitInfo.remainingRequests = parseInt(remaining);
-        rateLimitInfo.isRateLimited = false;
-        rateLimitInfo.resetTime = undefined;
-    }
+export const fetchScorers = async (competitionId: number): Promise<{ scorers: Scorer[], rateLimitInfo: RateLimitInfo }> => {
+    const result = await getFootballDataClient().get(`/competitions/${competitionId}/scorers?limit=${SCORERS_LIMIT}`, {
+        map: mapScorers,
+        revalidate: 3600,
+        cache: { key: `${CACHE_KEYS.SCORERS}competition_${competitionId}`, ttl: CACHE_TTL.SCORERS }
+    });
+
+    return { scorers: result.ok ? result.data : [], rateLimitInfo: getRateLimitInfo() };
 };
 
-export const getRateLimitInfo = (): RateLimitInfo => ({ ...rateLimitInfo });
+export const fetchTeamHistory = async (teamId: string | number): Promise<{ matches: Match[], rateLimitInfo: RateLimitInfo }> => {
+    const result = await getFootballDataClient().get(`/teams/${teamId}/matches?status=FINISHED&limit=10`, {
+        map: mapMatches,
+        revalidate: 3600,
+        cache: { key: `${CACHE_KEYS.TEAM_HISTORY}${teamId}`, ttl: CACHE_TTL.TEAM_HISTORY }
+    });
 
-export const resetRateLimit = (): void => {
-    rateLimitInfo = {
-        isRateLimited: false,
-        resetTime: undefined,
-        remainingRequests: undefined
-    };
-    requestCache.clear();
+    if (result.ok && !result.fromCache) observeMatches(result.data);
+
+    return { matches: result.ok ? result.data : [], rateLimitInfo: getRateLimitInfo() };
 };
 
-export const fetchCompetitions = async (): Promise<{ competitions: Competition[], rateLimitInfo: RateLimitInfo }> => {
-    try {
-        const rateStatus = checkRateLimit();
-        if (rateStatus.isRateLimited) {
-            return { competitions: [], rateLimitInfo: rateStatus };
-        }
+// Fixtures a team still has to play over the next month, soonest first
+export const fetchTeamFixtures = async (teamId: string | number): Promise<{ matches: Match[], rateLimitInfo: RateLimitInfo }> => {
+    const result = await getFootballDataClient().get(`/teams/${teamId}/matches?dateFrom=${isoDate(0)}&dateTo=${isoDate(30)}`, {
+        map: mapMatches,
+        revalidate: 300,
+        cache: { key: `${CACHE_KEYS.MATCHES}team_${teamId}`, ttl: CACHE_TTL.MATCHES }
+    });
+
+    if (!result.ok) return { matches: [], rateLimitInfo: getRateLimitInfo() };
+    if (!result.fromCache) observeMatches(result.data);
+
+    return {
+        matches: result.data
+            .filter(m => m.status === 'SCHEDULED' || m.status === 'TIMED')
+            .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
+        rateLimitInfo: getRateLimitInfo()
+    };
+};
 
-        // Fetch available competitions (tier one)
-        const url = `${BASE_URL}/competitions?plan=TIER_ONE`;
+export const fetchHeadToHead = async (homeTeamId: number, awayTeamId: number): Promise<{ matches: Match[], rateLimitInfo: RateLimitInfo }> => {
+    const result = await getFootballDataClient().get(`/teams/${homeTeamId}/matches?opponent=${awayTeamId}&status=FINISHED`, {
+        map: mapMatches,
+        revalidate: 86400,
+        cache: { key: `${CACHE_KEYS.HEAD_TO_HEAD}${homeTeamId}_vs_${awayTeamId}`, ttl: CACHE_TTL.HEAD_TO_HEAD }
+    });
 
-        recordRequest();
-        const res = await fetch(url, { headers, next: { revalidate: 86400 } }); // Cache for 24h
+    if (!result.ok) return { matches: [], rateLimitInfo: getRateLimitInfo() };
+    if (!result.fromCache) observeMatches(result.data);
 
-        handleRateLimitResponse(res);
+    // The team feed can include other opponents; keep only meetings, at either venue
+    const matches = result.data.filter(m =>
+        (m.homeTeamId === homeTeamId && m.awayTeamId === awayTeamId) ||
+        (m.homeTeamId === awayTeamId && m.awayTeamId === homeTeamId));
 
-        if (res.status === 429) {
-            return { competitions: [], rateLimitInfo: getRateLimitInfo() };
-        }
+    return { matches, rateLimitInfo: getRateLimitInfo() };
+};
 
-        if (!res.ok) {
-            return { competitions: [], rateLimitInfo: getRateLimitInfo() };
-        }
+export const fetchMatch = async (matchId: string | number): Promise<{ match: Match | null, rateLimitInfo: RateLimitInfo }> => {
+    const result = await getFootballDataClient().get(`/matches/${matchId}`, {
+        map: mapSingleMatch,
+        revalidate: 60,
+        cache: { key: `${CACHE_KEYS.MATCHES}match_${matchId}`, ttl: CACHE_TTL.MATCHES }
+    });
 
-        const data = await res.json();
+    const match = result.ok ? result.data : null;
+    if (result.ok && !result.fromCache && match) observeMatches([match]);
 
-        const competitions = data.competitions?.map((c: any) => ({
-            id: c.id,
-            name: c.name,
-            emblem: c.emblem,
-            code: c.code
-        })) || [];
+    return { match, rateLimitInfo: getRateLimitInfo() };
+};
 
-        return { competitions, rateLimitInfo: getRateLimitInfo() };
+// Cache management utilities
+export const clearCache = async (): Promise<void> => {
+    try {
+        await cacheManager.clear();
+        console.log('[DataService] All caches cleared');
     } catch (error) {
-        console.error("[fetchCompetitions] Error:", error);
-        return { competitions: [], rateLimitInfo: getRateLimitInfo() };
+        console.error('[DataService] Error clearing cache:', error);
     }
 };
 
-export const fetchUpcomingMatches = async (competitionId?: number): Promise<{ matches: Match[], rateLimitInfo: RateLimitInfo }> => {
+export const clearCompetitionCache = async (): Promise<void> => {
     try {
-        const rateStatus = checkRateLimit();
-        if (rateStatus.isRateLimited) {
-            return { matches: [], rateLimitInfo: rateStatus };
-        }
-
-        // If competitionId is provided, fetch matches for that competition
-        // Otherwise fetch matches for the next 7 days across all subscribed competitions
-        let url = `${BASE_URL}/matches`;
-
-        if (competitionId) {
-            // Fetch scheduled matches for the specific competition
-            // We use a broader date range or just 'SCHEDULED' status
-            const dateFrom = new Date().toISOString().split('T')[0];
-            const dateTo = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]; // Next 2 weeks
-            url = `${BASE_URL}/competitions/${competitionId}/matches?dateFrom=${dateFrom}&dateTo=${dateTo}`;
-        }
-
-        recordRequest();
-        const res = await fetch(url, { headers, next: { revalidate: 60 } });
-
-        handleRateLimitResponse(res);
-
-        if (res.status === 429) {
-            return { matches: [], rateLimitInfo: getRateLimitInfo() };
-        }
-
-        if (!res.ok) {
-            return { matches: [], rateLimitInfo: getRateLimitInfo() };
-        }
-
-        const data = await res.json();
-
-        if (!data.matches) {
-            return { matches: [], rateLimitInfo: getRateLimitInfo() };
-        }
-
-        const matches = data.matches.map((m: any) => ({
-            id: m.id,
-            homeTeam: m.homeTeam.name,
-            homeTeamId: m.homeTeam.id,
-            awayTeam: m.awayTeam.name,
-            awayTeamId: m.awayTeam.id,
-            date: m.utcDate,
-            status: m.status,
-            score: {
-                home: m.score.fullTime.home,
-                away: m.score.fullTime.away,
-            }
-        }));
-
-        return { matches, rateLimitInfo: getRateLimitInfo() };
+        await cacheManager.clearByPrefix(CACHE_KEYS.COMPETITIONS);
+        console.log('[DataService] Competition cache cleared');
     } catch (error) {
-        console.error("[fetchUpcomingMatches] Error:", error);
-        return { matches: [], rateLimitInfo: getRateLimitInfo() };
+        console.error('[DataService] Error clearing competition cache:', error);
     }
 };
 
-export const fetchTeamHistory = async (teamId: string | number): Promise<{ matches: Match[], rateLimitInfo: RateLimitInfo }> => {
+export const clearMatchCache = async (): Promise<void> => {
     try {
-        const rateStatus = checkRateLimit();
-        if (rateStatus.isRateLimited) {
-            return { matches: [], rateLimitInfo: rateStatus };
-        }
-
-        const url = `${BASE_URL}/teams/${teamId}/matches?status=FINISHED&limit=10`;
-
-        recordRequest();
-        const res = await fetch(url, { headers, next: { revalidate: 3600 } });
-        handleRateLimitResponse(res);
-
-        if (res.status === 429) {
-            return { matches: [], rateLimitInfo: getRateLimitInfo() };
-        }
-
-        if (!res.ok) {
-            return { matches: [], rateLimitInfo: getRateLimitInfo() };
-        }
-
-        const data = await res.json();
-
-        if (!data.matches) return { matches: [], rateLimitInfo: getRateLimitInfo() };
-
-        const matches = data.matches.map((m: any) => ({
-            id: m.id,
-            homeTeam: m.homeTeam.name,
-            homeTeamId: m.homeTeam.id,
-            awayTeam: m.awayTeam.name,
-            awayTeamId: m.awayTeam.id,
-            date: m.utcDate,
-            status: m.status,
-            score: {
-                home: m.score.fullTime.home,
-                away: m.score.fullTime.away,
-            }
-        }));
-
-        return { matches, rateLimitInfo: getRateLimitInfo() };
+        await cacheManager.clearByPrefix(CACHE_KEYS.MATCHES);
+        console.log('[DataService] Match cache cleared');
     } catch (error) {
-        console.error(`Error fetching history for team ${teamId}:`, error);
-        return { matches: [], rateLimitInfo: getRateLimitInfo() };
+        console.error('[DataService] Error clearing match cache:', error);
     }
 };
 
-export const fetchHeadToHead = async (homeTeamId: number, awayTeamId: number): Promise<{ matches: Match[], rateLimitInfo: RateLimitInfo }> => {
+export const clearStandingsCache = async (): Promise<void> => {
     try {
-        const rateStatus = checkRateLimit();
-        if (rateStatus.isRateLimited) {
-            return { matches: [], rateLimitInfo: rateStatus };
-        }
-
-        const url = `${BASE_URL}/teams/${homeTeamId}/matches?opponent=${awayTeamId}&status=FINISHED`;
-
-        recordRequest();
-        const res = await fetch(url, { headers, next: { revalidate: 86400 } });
-        handleRateLimitResponse(res);
-
-        if (res.status === 429) {
-            return { matches: [], rateLimitInfo: getRateLimitInfo() };
-        }
+        await cacheManager.clearByPrefix(CACHE_KEYS.STANDINGS);
+        console.log('[DataService] Standings cache cleared');
+    } catch (error) {
+        console.error('[DataService] Error clearing standings cache:', error);
+    }
+};
 
-        if (!res.ok) {
-            return { matches: [], rateLimitInfo: getRateLimitInfo() };
+export const clearTeamCache = async (teamId?: string | number): Promise<void> => {
+    try {
+        if (teamId) {
+            await cacheManager.delete(`${CACHE_KEYS.TEAM_HISTORY}${teamId}`);
+            console.log(`[DataService] Team cache cleared for team ${teamId}`);
+        } else {
+            await cacheManager.clearByPrefix(CACHE_KEYS.TEAM_HISTORY);
+            console.log('[DataService] All team cache cleared');
         }
-
-        const data = await res.json();
-
-        if (!data.matches) return { matches: [], rateLimitInfo: getRateLimitInfo() };
-
-        const matches = data.matches.map((m: any) => ({
-            id: m.id,
-            homeTeam: m.homeTeam.name,
-            homeTeamId: m.homeTeam.id,
-            awayTeam: m.awayTeam.name,
-            awayTeamId: m.awayTeam.id,
-            date: m.utcDate,
-            status: m.status,
-            score: {
-                home: m.score.fullTime.home,
-                away: m.score.fullTime.away,
-            }
-        }));
-
-        return { matches, rateLimitInfo: getRateLimitInfo() };
     } catch (error) {
-        console.error(`Error fetching H2H for ${homeTeamId} vs ${awayTeamId}:`, error);
-        return { matches: [], rateLimitInfo: getRateLimitInfo() };
+        console.error('[DataService] Error clearing team cache:', error);
     }
 };
+
+export const getCacheMetrics = () => {
+    return cacheManager.getMetrics();
+};
\ No newline at end of file
@@ -0,0 +1,60 @@
+// src/lib/services/eloRating.ts
+
+export interface RatingPoint {
+    matchId: number;
+    date: string;
+    opponentId: number;
+    rating: number; // rating after the match
+    change: number;
+}
+
+export interface TeamRating {
+    teamId: number;
+    teamName: string;
+    rating: number;
+    matchesRated: number;
+    history: RatingPoint[];
+}
+
+export const ELO_INITIAL_RATING = 1500;
+export const ELO_K_FACTOR = 20;
+// Rating points added to the home side when computing expectations
+export const ELO_HOME_ADVANTAGE = 60;
+
+export const expectedScore = (rating: number, opponentRating: number): number =>
+    1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+
+// Bigger wins move ratings further (World Football Elo convention)
+export const goalDifferenceMultiplier = (goalDifference: number): number => {
+    const margin = Math.abs(goalDifference);
+    if (margin <= 1) return 1;
+    if (margin === 2) return 1.5;
+    return (11 + margin) / 8;
+};
+
+export const calculateEloChange = (
+    homeRating: number,
+    awayRating: number,
+    homeGoals: number,
+    awayGoals: number,
+    neutralVenue: boolean = false,
+    kFactor: number = ELO_K_FACTOR
+): number => {
+    const expectedHome = expectedScore(homeRating + (neutralVenue ? 0 : ELO_HOME_ADVANTAGE), awayRating);
+    const actualHome = homeGoals > awayGoals ? 1 : homeGoals === awayGoals ? 0.5 : 0;
+    // Zero-sum: the away side moves by the negated amount
+    return kFactor * goalDifferenceMultiplier(homeGoals - awayGoals) * (actualHome - expectedHome);
+};
+
+/**
+ * How lopsided a fixture is, from 0 (evenly matched) to 0.5 (certain winner).
+ * Mismatches make it likelier that the weaker side fails to score.
+ */
+export const calculateRatingMismatch = (homeRating: number, awayRating: number, neutralVenue: boolean = false): number =>
+    Math.abs(expectedScore(homeRating + (neutralVenue ? 0 : ELO_HOME_ADVANTAGE), awayRating) - 0.5);
+
+// Goals of supremacy for a certain home win; an even fixture on neutral ground maps to zero
+export const ELO_SUPREMACY_SCALE = 3;
+
+export const calculateGoalSupremacy = (homeRating: number, awayRating: number, neutralVenue: boolean = false): number =>
+    (expectedScore(homeRating + (neutralVenue ? 0 : ELO_HOME_ADVANTAGE), awayRating) - 0.5) * ELO_SUPREMACY_SCALE;
@@ -0,0 +1,86 @@
+// src/lib/services/eloStore.ts
+
+import { Match } from './dataService';
+import { JsonFileStore } from '../storage/jsonFileStore';
+import { ELO_INITIAL_RATING, TeamRating, calculateEloChange } from './eloRating';
+import { isNeutralVenue } from './competitionContext';
+import { getArchivedMatches } from './matchArchive';
+
+interface EloState {
+    teams: Record<string, TeamRating>;
+    processedMatchIds: number[];
+}
+
+// Keep the chart payload bounded for long-running installs
+const MAX_HISTORY_POINTS = 200;
+
+const eloFile = new JsonFileStore<EloState>('elo-ratings.json', () => ({ teams: {}, processedMatchIds: [] }));
+
+const ensureTeam = (state: EloState, teamId: number, teamName: string): TeamRating => {
+    const key = String(teamId);
+    if (!state.teams[key]) {
+        state.teams[key] = { teamId, teamName, rating: ELO_INITIAL_RATING, matchesRated: 0, history: [] };
+    }
+    return state.teams[key];
+};
+
+const isScored = (m: Match): boolean =>
+    m.status === 'FINISHED' && m.score.home !== null && m.score.away !== null;
+
+// Replays every known result oldest first, the same way the backtest rebuilds its ratings
+const rebuildRatings = (matches: Match[]): EloState => {
+    const state: EloState = { teams: {}, processedMatchIds: [] };
+
+    [...matches]
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+        .forEach(m => {
+            const home = ensureTeam(state, m.homeTeamId, m.homeTeam);
+            const away = ensureTeam(state, m.awayTeamId, m.awayTeam);
+            const change = calculateEloChange(home.rating, away.rating, m.score.home || 0, m.score.away || 0, isNeutralVenue(m));
+
+            home.rating += change;
+            away.rating -= change;
+            home.matchesRated++;
+            away.matchesRated++;
+            home.history.push({ matchId: m.id, date: m.date, opponentId: away.teamId, rating: home.rating, change });
+            away.history.push({ matchId: m.id, date: m.date, opponentId: home.teamId, rating: away.rating, change: -change });
+            state.processedMatchIds.push(m.id);
+        });
+
+    Object.values(state.teams).forEach(team => {
+        team.history = team.history.slice(-MAX_HISTORY_POINTS);
+    });
+
+    return state;
+};
+
+/**
+ * Brings the rating table up to date with finished matches. Results can arrive
+ * in any order across requests, so whenever a batch holds an unseen match the
+ * table is rebuilt in date order from the archive plus that batch.
+ */
+export const recordFinishedMatches = (matches: Match[]): void => {
+    const finished = matches.filter(isScored);
+    if (finished.length === 0) return;
+
+    try {
+        eloFile.update(state => {
+            const processed = new Set(state.processedMatchIds);
+            if (finished.every(m => processed.has(m.id))) return false;
+
+            const known = new Map(getArchivedMatches().filter(isScored).map(m => [m.id, m]));
+            finished.forEach(m => known.set(m.id, m));
+
+            Object.assign(state, rebuildRatings(Array.from(known.values())));
+            return true;
+        });
+    } catch (error) {
+        console.warn('[EloStore] Failed to record finished matches:', error);
+    }
+};
+
+export const getTeamRating = (teamId: number): TeamRating | null =>
+    eloFile.read().teams[String(teamId)] || null;
+
+export const getRatingValue = (teamId: number): number =>
+    getTeamRating(teamId)?.rating ?? ELO_INITIAL_RATING;
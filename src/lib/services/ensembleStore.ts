@@ -0,0 +1,24 @@
+// src/lib/services/ensembleStore.ts
+
+import { JsonFileStore } from '../storage/jsonFileStore';
+
+export interface EnsembleWeights {
+    fittedAt: string;
+    fixturesReplayed: number;
+    logLoss: Record<string, number>; // backtest log loss per member model
+    weights: Record<string, number>;
+}
+
+interface EnsembleState {
+    current: EnsembleWeights | null;
+}
+
+const ensembleFile = new JsonFileStore<EnsembleState>('ensemble-weights.json', () => ({ current: null }));
+
+export const getEnsembleWeights = (): EnsembleWeights | null => ensembleFile.read().current;
+
+export const saveEnsembleWeights = (weights: EnsembleWeights): void => {
+    ensembleFile.update(state => {
+        state.current = weights;
+    });
+};
@@ -0,0 +1,59 @@
+// src/lib/services/factorAttribution.ts
+
+export type FactorInputs = Record<string, number | string | boolean | null>;
+
+export interface PredictionFactor {
+    id: string;
+    label: string;
+    contribution: number; // signed percentage points; a prediction's factors sum to its probability
+    inputs: FactorInputs;
+    isBase?: boolean; // the starting value the other factors adjust, shown as a level rather than a step
+}
+
+// Records the value a prediction starts from; kept even at 0 so it is never mistaken for a step
+export const recordBase = (
+    factors: PredictionFactor[],
+    id: string,
+    label: string,
+    value: number,
+    inputs: FactorInputs = {}
+): number => {
+    factors.push({ id, label, contribution: value, inputs, isBase: true });
+    return value;
+};
+
+/**
+ * Records the step from `before` to `after` as a factor and returns `after`,
+ * so adjustments can be chained. Steps that change nothing are left out.
+ */
+export const recordFactor = (
+    factors: PredictionFactor[],
+    id: string,
+    label: string,
+    before: number,
+    after: number,
+    inputs: FactorInputs = {}
+): number => {
+    const contribution = after - before;
+    if (contribution !== 0) factors.push({ id, label, contribution, inputs });
+    return after;
+};
+
+export const sumFactors = (factors: PredictionFactor[]): number =>
+    factors.reduce((sum, f) => sum + f.contribution, 0);
+
+// "Form 41% · H2H -2.0pp · Venue +1.3pp = 40%"
+export const describeFactors = (factors: PredictionFactor[]): string => {
+    if (factors.length === 0) return 'No factors recorded.';
+
+    const steps = factors.map(f => f.isBase
+        ? `${f.label} ${f.contribution.toFixed(0)}%`
+        : `${f.label} ${f.contribution > 0 ? '+' : ''}${f.contribution.toFixed(1)}pp`
+    );
+
+    return `${steps.join(' · ')} = ${sumFactors(factors).toFixed(0)}%.`;
+};
+
+// Every model words its reasoning the same way, straight from its factors, so the text matches the waterfall
+export const buildReasoning = (competition: string, factors: PredictionFactor[], confidence: string): string =>
+    `Competition: ${competition}. ${describeFactors(factors)} Confidence: ${confidence}.`;
@@ -0,0 +1,112 @@
+// src/lib/services/fixtureCongestion.ts
+import { Match } from './dataService';
+
+export type RestState = 'SHORT_REST' | 'CONGESTED' | 'NORMAL';
+
+export interface RestProfile {
+    daysRest: number | null; // null when the previous game is unknown or too long ago to matter
+    gamesInWindow: number; // games in the CONGESTION_WINDOW_DAYS before kickoff
+    state: RestState;
+}
+
+export interface RestEffectBucket {
+    delta: number; // percentage points of BTTS relative to normally rested sides, already shrunk
+    samples: number;
+}
+
+export interface RestEffect {
+    shortRest: RestEffectBucket;
+    congested: RestEffectBucket;
+    baselineSamples: number;
+}
+
+export const CONGESTION_WINDOW_DAYS = 14;
+export const SHORT_REST_DAYS = 3;
+export const CONGESTED_GAMES = 3;
+// Gaps longer than this are breaks (international windows, off-season), not rest
+const MAX_TRACKED_REST_DAYS = 21;
+// Pseudo-games of "no effect" blended into each bucket so a handful of results can't swing it
+const REST_EFFECT_PRIOR_GAMES = 30;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const isScored = (m: Match): boolean =>
+    m.status === 'FINISHED' && m.score.home !== null && m.score.away !== null;
+
+const classifyRest = (daysRest: number | null, gamesInWindow: number): RestState => {
+    if (daysRest !== null && daysRest <= SHORT_REST_DAYS) return 'SHORT_REST';
+    if (gamesInWindow >= CONGESTED_GAMES) return 'CONGESTED';
+    return 'NORMAL';
+};
+
+// Kickoff times are epoch milliseconds, any order
+const profileFromKickoffs = (kickoffs: number[], kickoff: number): RestProfile => {
+    const before = kickoffs.filter(t => t < kickoff);
+    const last = before.length > 0 ? Math.max(...before) : null;
+    const days = last !== null ? Math.floor((kickoff - last) / MS_PER_DAY) : null;
+    const daysRest = days !== null && days <= MAX_TRACKED_REST_DAYS ? days : null;
+    const gamesInWindow = before.filter(t => kickoff - t <= CONGESTION_WINDOW_DAYS * MS_PER_DAY).length;
+
+    return { daysRest, gamesInWindow, state: classifyRest(daysRest, gamesInWindow) };
+};
+
+export const calculateRestProfile = (teamId: number, history: Match[], kickoff: string): RestProfile =>
+    profileFromKickoffs(
+        history
+            .filter(m => m.status === 'FINISHED' && (m.homeTeamId === teamId || m.awayTeamId === teamId))
+            .map(m => new Date(m.date).getTime()),
+        new Date(kickoff).getTime()
+    );
+
+/**
+ * Measures how BTTS changed in past games where one side was tired, against
+ * games where that side was normally rested. Every team appearance with a
+ * known previous game counts once.
+ */
+export const estimateRestEffect = (matches: Match[]): RestEffect => {
+    const fixtures = Array.from(new Map(matches.filter(isScored).map(m => [m.id, m])).values())
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    const kickoffsByTeam = new Map<number, number[]>();
+    const buckets: Record<RestState, { btts: number; games: number }> = {
+        SHORT_REST: { btts: 0, games: 0 },
+        CONGESTED: { btts: 0, games: 0 },
+        NORMAL: { btts: 0, games: 0 }
+    };
+
+    fixtures.forEach(m => {
+        const kickoff = new Date(m.date).getTime();
+        const btts = m.score.home! > 0 && m.score.away! > 0 ? 1 : 0;
+
+        [m.homeTeamId, m.awayTeamId].forEach(teamId => {
+            const kickoffs = kickoffsByTeam.get(teamId) || [];
+            const profile = profileFromKickoffs(kickoffs, kickoff);
+            // Without a recent previous game we can't tell how rested the side was
+            if (profile.daysRest !== null) {
+                buckets[profile.state].btts += btts;
+                buckets[profile.state].games++;
+            }
+            kickoffs.push(kickoff);
+            kickoffsByTeam.set(teamId, kickoffs);
+        });
+    });
+
+    const normalRate = buckets.NORMAL.games > 0 ? buckets.NORMAL.btts / buckets.NORMAL.games : 0;
+    const toEffect = (state: RestState): RestEffectBucket => {
+        const { btts, games } = buckets[state];
+        if (games === 0 || buckets.NORMAL.games === 0) return { delta: 0, samples: games };
+        const shrink = games / (games + REST_EFFECT_PRIOR_GAMES);
+        return { delta: (btts / games - normalRate) * 100 * shrink, samples: games };
+    };
+
+    return {
+        shortRest: toEffect('SHORT_REST'),
+        congested: toEffect('CONGESTED'),
+        baselineSamples: buckets.NORMAL.games
+    };
+};
+
+export const restEffectFor = (effect: RestEffect, profile: RestProfile): number =>
+    profile.state === 'SHORT_REST' ? effect.shortRest.delta
+        : profile.state === 'CONGESTED' ? effect.congested.delta
+            : 0;
@@ -0,0 +1,63 @@
+// src/lib/services/footballDataClient.ts
+
+import { cacheManager } from '../cache/cacheManager';
+import { HttpClient, Middleware, createHttpClient } from '../http/httpClient';
+import { authHeader, caching, logging, rateLimit, retry } from '../http/middleware';
+import { RateLimitInfo, createRateLimiter } from '../http/rateLimiter';
+
+const API_KEY = process.env.FOOTBALL_DATA_API_KEY;
+const BASE_URL = 'https://api.football-data.org/v4';
+
+if (!API_KEY) {
+    console.error("FOOTBALL_DATA_API_KEY is not set in environment variables.");
+}
+
+export interface FootballDataConfig {
+    cache: boolean; // serve repeat requests from the cache manager for each endpoint's TTL
+    retries: number; // extra attempts after a network or server error
+    retryDelayMs: number;
+    logging: boolean; // one line per request with its outcome and timing
+}
+
+// FOOTBALL_DATA_CACHE=off, FOOTBALL_DATA_RETRIES=<n> and FOOTBALL_DATA_LOG=on override the defaults
+export const readFootballDataConfig = (env: Record<string, string | undefined> = process.env): FootballDataConfig => ({
+    cache: env.FOOTBALL_DATA_CACHE !== 'off',
+    retries: env.FOOTBALL_DATA_RETRIES !== undefined ? Math.max(0, parseInt(env.FOOTBALL_DATA_RETRIES) || 0) : 1,
+    retryDelayMs: 500,
+    logging: env.FOOTBALL_DATA_LOG === 'on'
+});
+
+// One budget for the whole app, however often the client is rebuilt
+const limiter = createRateLimiter({
+    windowMs: 60 * 1000, // 1 minute
+    maxRequests: 10 // Conservative limit
+});
+
+const buildClient = (config: FootballDataConfig): HttpClient => {
+    // Outermost first: cache hits skip the rest, and every retry passes the rate limiter
+    const middleware: Middleware[] = [
+        ...(config.logging ? [logging('football-data')] : []),
+        ...(config.cache ? [caching(cacheManager)] : []),
+        ...(config.retries > 0 ? [retry({ retries: config.retries, delayMs: config.retryDelayMs })] : []),
+        rateLimit(limiter),
+        authHeader('X-Auth-Token', API_KEY || '')
+    ];
+
+    return createHttpClient({ baseUrl: BASE_URL, middleware });
+};
+
+let config = readFootballDataConfig();
+let client = buildClient(config);
+
+export const getFootballDataClient = (): HttpClient => client;
+
+export const getFootballDataConfig = (): FootballDataConfig => ({ ...config });
+
+export const configureFootballData = (overrides: Partial<FootballDataConfig>): void => {
+    config = { ...config, ...overrides };
+    client = buildClient(config);
+};
+
+export const getRateLimitInfo = (): RateLimitInfo => limiter.getInfo();
+
+export const resetRateLimit = (): void => limiter.reset();
@@ -0,0 +1,48 @@
+// src/lib/services/goalConcentration.ts
+import { Scorer, StandingRow } from './dataService';
+
+// Share of a side's league goals from one player at which it counts as reliant on them
+export const HIGH_CONCENTRATION_SHARE = 0.4;
+// Below this many team goals the share is mostly noise
+export const MIN_TEAM_GOALS = 5;
+
+export interface GoalConcentration {
+    teamId: number;
+    teamGoals: number;
+    scorers: Scorer[]; // the side's players in the scorers feed, most goals first
+    topScorer: Scorer;
+    share: number; // 0 to 1
+    dependent: boolean;
+}
+
+/**
+ * How much of a side's league scoring comes from its top scorer. Team goals
+ * come from the table so both counts cover the same competition and season.
+ */
+export const calculateGoalConcentration = (
+    teamId: number,
+    scorers: Scorer[],
+    standings: StandingRow[]
+): GoalConcentration | undefined => {
+    const teamGoals = standings.find(row => row.teamId === teamId)?.goalsFor ?? 0;
+    const teamScorers = scorers
+        .filter(s => s.teamId === teamId)
+        .sort((a, b) => b.goals - a.goals);
+
+    if (teamScorers.length === 0 || teamGoals <= 0) return undefined;
+
+    const topScorer = teamScorers[0];
+    const share = Math.min(1, topScorer.goals / teamGoals);
+
+    return {
+        teamId,
+        teamGoals,
+        scorers: teamScorers,
+        topScorer,
+        share,
+        dependent: teamGoals >= MIN_TEAM_GOALS && share >= HIGH_CONCENTRATION_SHARE
+    };
+};
+
+export const describeGoalConcentration = (side: string, concentration: GoalConcentration): string =>
+    `${side} relies on ${concentration.topScorer.playerName}: ${(concentration.share * 100).toFixed(0)}% of goals (${concentration.topScorer.goals}/${concentration.teamGoals})`;
@@ -0,0 +1,312 @@
+// src/lib/services/goalModel.ts
+import { Match } from './dataService';
+import { poissonProbability } from '../stats/distributions';
+import {
+    BTTS_YES_THRESHOLD,
+    EnhancedPrediction,
+    GOAL_LINES,
+    GoalLineMarket,
+    assessRiskLevel,
+    calculateConfidenceInterval
+} from './predictionService';
+import { ResultPrediction, buildResultPrediction } from './resultPrediction';
+import { describeCompetition, isNeutralVenue } from './competitionContext';
+import { PredictionFactor, buildReasoning, recordBase } from './factorAttribution';
+import { analyzeHeadToHead } from './headToHead';
+
+export interface LeagueBaseline {
+    homeGoals: number; // average goals scored by the home side
+    awayGoals: number; // average goals scored by the away side
+    sampleSize: number;
+}
+
+export interface TeamStrength {
+    teamId: number;
+    attack: number; // 1.0 = league average, higher scores more
+    defence: number; // 1.0 = league average, higher concedes more
+    matchesPlayed: number;
+}
+
+export interface GoalExpectation {
+    home: number; // expected home goals (lambda)
+    away: number; // expected away goals (mu)
+}
+
+export interface GoalModelFit {
+    baseline: LeagueBaseline;
+    homeStrength: TeamStrength;
+    awayStrength: TeamStrength;
+    expectation: GoalExpectation;
+    sampleSize: number;
+}
+
+export interface CorrectScoreGrid {
+    maxGoals: number;
+    scores: number[][]; // [homeGoals][awayGoals], 0 to 100
+    other: number; // any scoreline beyond maxGoals for either side, 0 to 100
+}
+
+export interface MatrixMarkets {
+    scoring: { home: number; away: number; both: number };
+    goalLines: GoalLineMarket[];
+    result: ResultPrediction;
+}
+
+export interface GoalModelOptions {
+    rho?: number;
+    maxGoals?: number;
+    priorMatches?: number;
+}
+
+// Dixon-Coles dependence parameter; negative values inflate 0-0 and 1-1 draws
+export const DEFAULT_RHO = -0.1;
+export const DEFAULT_MAX_GOALS = 10;
+export const CORRECT_SCORE_MAX_GOALS = 5;
+// Pseudo-matches at league-average strength blended into each team's fit
+export const DEFAULT_PRIOR_MATCHES = 3;
+
+// Typical top-flight scoring rates, used when the histories contain no finished games
+const FALLBACK_BASELINE: LeagueBaseline = { homeGoals: 1.5, awayGoals: 1.2, sampleSize: 0 };
+
+const isScored = (m: Match): boolean =>
+    m.status === 'FINISHED' && m.score.home !== null && m.score.away !== null;
+
+export const calculateLeagueBaseline = (matches: Match[]): LeagueBaseline => {
+    // The same game can appear in both teams' histories
+    const unique = new Map<number, Match>();
+    matches.filter(isScored).forEach(m => unique.set(m.id, m));
+
+    if (unique.size === 0) return FALLBACK_BASELINE;
+
+    const games = Array.from(unique.values());
+    const homeGoals = games.reduce((sum, m) => sum + (m.score.home || 0), 0) / games.length;
+    const awayGoals = games.reduce((sum, m) => sum + (m.score.away || 0), 0) / games.length;
+
+    return {
+        homeGoals: homeGoals > 0 ? homeGoals : FALLBACK_BASELINE.homeGoals,
+        awayGoals: awayGoals > 0 ? awayGoals : FALLBACK_BASELINE.awayGoals,
+        sampleSize: games.length
+    };
+};
+
+export const fitTeamStrength = (
+    teamId: number,
+    history: Match[],
+    baseline: LeagueBaseline,
+    priorMatches: number = DEFAULT_PRIOR_MATCHES
+): TeamStrength => {
+    let goalsFor = 0;
+    let goalsAgainst = 0;
+    let expectedFor = 0;
+    let expectedAgainst = 0;
+    let matchesPlayed = 0;
+
+    history.filter(isScored).forEach(m => {
+        const atHome = m.homeTeamId === teamId;
+        if (!atHome && m.awayTeamId !== teamId) return;
+
+        goalsFor += (atHome ? m.score.home : m.score.away) || 0;
+        goalsAgainst += (atHome ? m.score.away : m.score.home) || 0;
+        // What an average team would score/concede in the same fixture
+        expectedFor += atHome ? baseline.homeGoals : baseline.awayGoals;
+        expectedAgainst += atHome ? baseline.awayGoals : baseline.homeGoals;
+        matchesPlayed++;
+    });
+
+    // Shrink toward 1.0 by blending in average-strength pseudo-matches
+    const priorGoals = priorMatches * (baseline.homeGoals + baseline.awayGoals) / 2;
+
+    return {
+        teamId,
+        attack: (goalsFor + priorGoals) / (expectedFor + priorGoals),
+        defence: (goalsAgainst + priorGoals) / (expectedAgainst + priorGoals),
+        matchesPlayed
+    };
+};
+
+export const calculateGoalExpectation = (
+    homeStrength: TeamStrength,
+    awayStrength: TeamStrength,
+    baseline: LeagueBaseline
+): GoalExpectation => ({
+    home: baseline.homeGoals * homeStrength.attack * awayStrength.defence,
+    away: baseline.awayGoals * awayStrength.attack * homeStrength.defence
+});
+
+// Dixon-Coles correction for the low-scoring cells plain Poisson gets wrong
+export const dixonColesTau = (homeGoals: number, awayGoals: number, lambda: number, mu: number, rho: number): number => {
+    if (homeGoals === 0 && awayGoals === 0) return 1 - lambda * mu * rho;
+    if (homeGoals === 0 && awayGoals === 1) return 1 + lambda * rho;
+    if (homeGoals === 1 && awayGoals === 0) return 1 + mu * rho;
+    if (homeGoals === 1 && awayGoals === 1) return 1 - rho;
+    return 1;
+};
+
+// rho must keep every tau non-negative for the given rates
+const clampRho = (rho: number, lambda: number, mu: number): number => {
+    const lowerBound = Math.max(-1 / Math.max(lambda, 1e-6), -1 / Math.max(mu, 1e-6));
+    const upperBound = Math.min(1 / Math.max(lambda * mu, 1e-6), 1);
+    return Math.min(upperBound, Math.max(lowerBound, rho));
+};
+
+/**
+ * Joint scoreline probabilities, indexed [homeGoals][awayGoals].
+ * The grid is renormalised so the truncated tail doesn't leak probability.
+ */
+export const buildScoreMatrix = (expectation: GoalExpectation, options: GoalModelOptions = {}): number[][] => {
+    const maxGoals = options.maxGoals ?? DEFAULT_MAX_GOALS;
+    const rho = clampRho(options.rho ?? DEFAULT_RHO, expectation.home, expectation.away);
+
+    const matrix: number[][] = [];
+    let total = 0;
+
+    for (let i = 0; i <= maxGoals; i++) {
+        const row: number[] = [];
+        for (let j = 0; j <= maxGoals; j++) {
+            const p = poissonProbability(i, expectation.home) *
+                poissonProbability(j, expectation.away) *
+                dixonColesTau(i, j, expectation.home, expectation.away, rho);
+            row.push(p);
+            total += p;
+        }
+        matrix.push(row);
+    }
+
+    return matrix.map(row => row.map(p => p / total));
+};
+
+export const calculateScoringProbabilities = (matrix: number[][]): { home: number; away: number; both: number } => {
+    let homeBlank = 0;
+    let awayBlank = 0;
+
+    matrix.forEach((row, i) => row.forEach((p, j) => {
+        if (i === 0) homeBlank += p;
+        if (j === 0) awayBlank += p;
+    }));
+
+    // Inclusion-exclusion keeps the Dixon-Coles dependence, unlike a plain product
+    const both = 1 - homeBlank - awayBlank + (matrix[0]?.[0] || 0);
+
+    return { home: 1 - homeBlank, away: 1 - awayBlank, both };
+};
+
+export const calculateGoalLinesFromMatrix = (matrix: number[][]): GoalLineMarket[] =>
+    GOAL_LINES.map(line => {
+        let over = 0;
+        matrix.forEach((row, i) => row.forEach((p, j) => {
+            if (i + j > line) over += p;
+        }));
+        return { line, overProbability: over * 100, underProbability: (1 - over) * 100 };
+    });
+
+export const calculateResultFromMatrix = (matrix: number[][], sampleSize: number): ResultPrediction => {
+    const raw = { home: 0, draw: 0, away: 0 };
+    matrix.forEach((row, i) => row.forEach((p, j) => {
+        if (i > j) raw.home += p;
+        else if (i === j) raw.draw += p;
+        else raw.away += p;
+    }));
+    return buildResultPrediction(raw, sampleSize);
+};
+
+export const buildCorrectScoreGrid = (matrix: number[][], maxGoals: number = CORRECT_SCORE_MAX_GOALS): CorrectScoreGrid => {
+    const scores = Array.from({ length: maxGoals + 1 }, (_, i) =>
+        Array.from({ length: maxGoals + 1 }, (_, j) => (matrix[i]?.[j] || 0) * 100)
+    );
+    const listed = scores.reduce((sum, row) => sum + row.reduce((rowSum, p) => rowSum + p, 0), 0);
+
+    return { maxGoals, scores, other: Math.max(0, 100 - listed) };
+};
+
+/**
+ * Every market the goal model prices comes from one scoreline matrix,
+ * so BTTS, totals and the result can never contradict each other.
+ */
+export const deriveMarketsFromMatrix = (matrix: number[][], sampleSize: number): MatrixMarkets => ({
+    scoring: calculateScoringProbabilities(matrix),
+    goalLines: calculateGoalLinesFromMatrix(matrix),
+    result: calculateResultFromMatrix(matrix, sampleSize)
+});
+
+export const fitGoalModel = (
+    match: Match,
+    homeHistory: Match[],
+    awayHistory: Match[],
+    options: GoalModelOptions = {}
+): GoalModelFit => {
+    const baseline = calculateLeagueBaseline([...homeHistory, ...awayHistory]);
+    const priorMatches = options.priorMatches ?? DEFAULT_PRIOR_MATCHES;
+
+    const homeStrength = fitTeamStrength(match.homeTeamId, homeHistory, baseline, priorMatches);
+    const awayStrength = fitTeamStrength(match.awayTeamId, awayHistory, baseline, priorMatches);
+
+    // At a neutral ground both sides get the average of the home and away scoring rates
+    const venueBaseline = isNeutralVenue(match)
+        ? { ...baseline, homeGoals: (baseline.homeGoals + baseline.awayGoals) / 2, awayGoals: (baseline.homeGoals + baseline.awayGoals) / 2 }
+        : baseline;
+
+    return {
+        baseline,
+        homeStrength,
+        awayStrength,
+        expectation: calculateGoalExpectation(homeStrength, awayStrength, venueBaseline),
+        sampleSize: homeStrength.matchesPlayed + awayStrength.matchesPlayed
+    };
+};
+
+export const generateGoalModelPrediction = (
+    match: Match,
+    homeHistory: Match[],
+    awayHistory: Match[],
+    headToHead: Match[] = [],
+    options: GoalModelOptions = {}
+): EnhancedPrediction => {
+    const { homeStrength, awayStrength, expectation, sampleSize } = fitGoalModel(match, homeHistory, awayHistory, options);
+
+    const matrix = buildScoreMatrix(expectation, options);
+    const markets = deriveMarketsFromMatrix(matrix, sampleSize);
+    const scoring = markets.scoring;
+    const factors: PredictionFactor[] = [];
+    const probability = recordBase(factors, 'goalModel', 'Poisson (Dixon-Coles)', Math.min(100, Math.max(0, scoring.both * 100)), {
+        homeXG: expectation.home,
+        awayXG: expectation.away,
+        homeScores: scoring.home * 100,
+        awayScores: scoring.away * 100,
+        games: sampleSize
+    });
+
+    const confidenceInterval = calculateConfidenceInterval(probability, sampleSize);
+    const riskLevel = assessRiskLevel(confidenceInterval);
+    const h2h = analyzeHeadToHead(match.homeTeamId, match.awayTeamId, headToHead, { referenceDate: match.date });
+
+    const keyFactors: string[] = [];
+    keyFactors.push(`xG: Home ${expectation.home.toFixed(2)} - Away ${expectation.away.toFixed(2)}`);
+    keyFactors.push(`P(score): Home ${(scoring.home * 100).toFixed(0)}%, Away ${(scoring.away * 100).toFixed(0)}% over ${sampleSize} games`);
+    if (homeStrength.attack > 1.2) keyFactors.push('Home team strong attack');
+    if (awayStrength.attack > 1.2) keyFactors.push('Away team strong attack');
+    if (homeStrength.defence < 0.8) keyFactors.push('Home team tight defence');
+    if (awayStrength.defence < 0.8) keyFactors.push('Away team tight defence');
+    if (h2h.meetings.length > 0) keyFactors.push(`H2H: ${h2h.bttsRate.toFixed(0)}% BTTS`);
+
+    const sufficientData = sampleSize >= 5;
+    const warning = !sufficientData ? 'Limited historical data available' : undefined;
+    const competition = describeCompetition(match);
+
+    return {
+        matchId: match.id,
+        homeTeam: match.homeTeam,
+        awayTeam: match.awayTeam,
+        bttsProbability: probability,
+        prediction: probability > BTTS_YES_THRESHOLD ? 'YES' : 'NO',
+        confidenceInterval,
+        h2hBTTS: h2h.meetings.length > 0 ? h2h.bttsRate : undefined,
+        riskLevel,
+        keyFactors,
+        dataQuality: { sufficientData, warning },
+        goalLines: markets.goalLines,
+        result: markets.result,
+        factors,
+        competition,
+        reasoning: buildReasoning(competition, factors, confidenceInterval.confidence)
+    };
+};
@@ -0,0 +1,102 @@
+// src/lib/services/halfMarkets.ts
+import { Match } from './dataService';
+
+export interface HalfGoals {
+    firstHalf: { home: number; away: number };
+    secondHalf: { home: number; away: number };
+}
+
+export interface TeamHalfRecord {
+    games: number; // finished games with a half-time score
+    scoredFirstHalf: number;
+    scoredSecondHalf: number;
+    scoredBothHalves: number;
+    concededFirstHalf: number;
+    concededSecondHalf: number;
+    concededBothHalves: number;
+}
+
+export interface HalfMarkets {
+    sampleSize: number;
+    bttsFirstHalf: number; // 0 to 100
+    bttsSecondHalf: number;
+    homeScoresBothHalves: number;
+    awayScoresBothHalves: number;
+}
+
+// Each side needs this many games with half-time data before the markets are shown
+export const MIN_HALF_SAMPLES = 3;
+
+// Extra-time goals belong to neither half, so the second half is measured against the 90-minute score
+export const getHalfGoals = (match: Match): HalfGoals | null => {
+    const { halfTime, regularTime } = match.score;
+    const fullTime = regularTime ?? match.score;
+    if (match.status !== 'FINISHED' || !halfTime || halfTime.home === null || halfTime.away === null) return null;
+    if (fullTime.home === null || fullTime.away === null) return null;
+
+    return {
+        firstHalf: { home: halfTime.home, away: halfTime.away },
+        secondHalf: { home: fullTime.home - halfTime.home, away: fullTime.away - halfTime.away }
+    };
+};
+
+export const analyzeHalfRecord = (teamId: number, matches: Match[]): TeamHalfRecord => {
+    const record: TeamHalfRecord = {
+        games: 0,
+        scoredFirstHalf: 0,
+        scoredSecondHalf: 0,
+        scoredBothHalves: 0,
+        concededFirstHalf: 0,
+        concededSecondHalf: 0,
+        concededBothHalves: 0
+    };
+
+    matches.forEach(m => {
+        const atHome = m.homeTeamId === teamId;
+        if (!atHome && m.awayTeamId !== teamId) return;
+        const halves = getHalfGoals(m);
+        if (!halves) return;
+
+        const forFirst = atHome ? halves.firstHalf.home : halves.firstHalf.away;
+        const forSecond = atHome ? halves.secondHalf.home : halves.secondHalf.away;
+        const againstFirst = atHome ? halves.firstHalf.away : halves.firstHalf.home;
+        const againstSecond = atHome ? halves.secondHalf.away : halves.secondHalf.home;
+
+        record.games++;
+        if (forFirst > 0) record.scoredFirstHalf++;
+        if (forSecond > 0) record.scoredSecondHalf++;
+        if (forFirst > 0 && forSecond > 0) record.scoredBothHalves++;
+        if (againstFirst > 0) record.concededFirstHalf++;
+        if (againstSecond > 0) record.concededSecondHalf++;
+        if (againstFirst > 0 && againstSecond > 0) record.concededBothHalves++;
+    });
+
+    return record;
+};
+
+/**
+ * A side scoring in a half is judged from both ends: how often it scores then,
+ * and how often its opponent concedes then. BTTS in a half multiplies the two
+ * sides' chances, treating them as independent.
+ */
+export const predictHalfMarkets = (match: Match, homeHistory: Match[], awayHistory: Match[]): HalfMarkets | undefined => {
+    const home = analyzeHalfRecord(match.homeTeamId, homeHistory);
+    const away = analyzeHalfRecord(match.awayTeamId, awayHistory);
+    if (home.games < MIN_HALF_SAMPLES || away.games < MIN_HALF_SAMPLES) return undefined;
+
+    const blend = (attack: number, attackGames: number, defence: number, defenceGames: number) =>
+        (attack / attackGames + defence / defenceGames) / 2;
+
+    const homeFirst = blend(home.scoredFirstHalf, home.games, away.concededFirstHalf, away.games);
+    const awayFirst = blend(away.scoredFirstHalf, away.games, home.concededFirstHalf, home.games);
+    const homeSecond = blend(home.scoredSecondHalf, home.games, away.concededSecondHalf, away.games);
+    const awaySecond = blend(away.scoredSecondHalf, away.games, home.concededSecondHalf, home.games);
+
+    return {
+        sampleSize: home.games + away.games,
+        bttsFirstHalf: homeFirst * awayFirst * 100,
+        bttsSecondHalf: homeSecond * awaySecond * 100,
+        homeScoresBothHalves: blend(home.scoredBothHalves, home.games, away.concededBothHalves, away.games) * 100,
+        awayScoresBothHalves: blend(away.scoredBothHalves, away.games, home.concededBothHalves, home.games) * 100
+    };
+};
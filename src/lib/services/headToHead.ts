@@ -0,0 +1,115 @@
+// src/lib/services/headToHead.ts
+
+import { Match } from './dataService';
+import { calculateRecencyWeight } from '../stats/recency';
+
+// Meetings two seasons back still count half; rivalries change slower than form
+export const H2H_HALF_LIFE_DAYS = 730;
+// Meetings with the venues swapped say less about this fixture
+export const REVERSE_VENUE_WEIGHT = 0.5;
+// The H2H share of the prediction approaches this as relevant meetings pile up
+export const H2H_MAX_WEIGHT = 0.3;
+// Relevant meetings at which H2H gets half of its maximum share
+export const H2H_HALF_WEIGHT_MEETINGS = 3;
+
+export interface H2HMeeting {
+    match: Match;
+    sameVenue: boolean; // the upcoming home side was at home in this meeting too
+    homeGoals: number; // goals by the upcoming home side, whichever end they played at
+    awayGoals: number;
+    btts: boolean;
+    relevance: number; // recency decay times the venue discount, 0 to 1
+}
+
+export interface H2HVenueSplit {
+    meetings: number;
+    homeWins: number; // from the upcoming home side's point of view
+    draws: number;
+    awayWins: number;
+    homeGoals: number;
+    awayGoals: number;
+    bttsRate: number; // recency weighted, 0 to 100
+}
+
+export interface HeadToHeadSummary {
+    homeTeamId: number;
+    awayTeamId: number;
+    meetings: H2HMeeting[]; // most recent first
+    sameVenue: H2HVenueSplit;
+    reverseVenue: H2HVenueSplit;
+    bttsRate: number; // relevance weighted over all meetings, 0 to 100
+    relevantMeetings: number; // sum of relevance
+    weight: number; // share the prediction gives to bttsRate, 0 to H2H_MAX_WEIGHT
+}
+
+export interface HeadToHeadOptions {
+    referenceDate?: string; // usually the kickoff being predicted
+    halfLifeDays?: number;
+}
+
+const weightedBTTS = (meetings: H2HMeeting[], weightOf: (m: H2HMeeting) => number): number => {
+    const total = meetings.reduce((sum, m) => sum + weightOf(m), 0);
+    return total > 0 ? (meetings.reduce((sum, m) => sum + (m.btts ? weightOf(m) : 0), 0) / total) * 100 : 0;
+};
+
+const summarizeVenue = (meetings: H2HMeeting[], halfLifeDays: number, referenceDate?: string): H2HVenueSplit => ({
+    meetings: meetings.length,
+    homeWins: meetings.filter(m => m.homeGoals > m.awayGoals).length,
+    draws: meetings.filter(m => m.homeGoals === m.awayGoals).length,
+    awayWins: meetings.filter(m => m.homeGoals < m.awayGoals).length,
+    homeGoals: meetings.reduce((sum, m) => sum + m.homeGoals, 0),
+    awayGoals: meetings.reduce((sum, m) => sum + m.awayGoals, 0),
+    bttsRate: weightedBTTS(meetings, m => calculateRecencyWeight(m.match.date, referenceDate, halfLifeDays))
+});
+
+export const calculateH2HWeight = (relevantMeetings: number): number =>
+    H2H_MAX_WEIGHT * relevantMeetings / (relevantMeetings + H2H_HALF_WEIGHT_MEETINGS);
+
+/**
+ * Orients every finished meeting between the two sides around the upcoming fixture,
+ * whichever team was at home and whichever team's feed it came from. Duplicates
+ * (the same match seen from both sides) are counted once.
+ */
+export const analyzeHeadToHead = (
+    homeTeamId: number,
+    awayTeamId: number,
+    matches: Match[],
+    options: HeadToHeadOptions = {}
+): HeadToHeadSummary => {
+    const halfLifeDays = options.halfLifeDays ?? H2H_HALF_LIFE_DAYS;
+    const unique = new Map<number, Match>();
+    matches
+        .filter(m => m.status === 'FINISHED' && m.score.home !== null && m.score.away !== null)
+        .filter(m => (m.homeTeamId === homeTeamId && m.awayTeamId === awayTeamId) ||
+            (m.homeTeamId === awayTeamId && m.awayTeamId === homeTeamId))
+        .forEach(m => unique.set(m.id, m));
+
+    const meetings: H2HMeeting[] = Array.from(unique.values())
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+        .map(m => {
+            const sameVenue = m.homeTeamId === homeTeamId;
+            const homeGoals = (sameVenue ? m.score.home : m.score.away) || 0;
+            const awayGoals = (sameVenue ? m.score.away : m.score.home) || 0;
+            return {
+                match: m,
+                sameVenue,
+                homeGoals,
+                awayGoals,
+                btts: homeGoals > 0 && awayGoals > 0,
+                relevance: calculateRecencyWeight(m.date, options.referenceDate, halfLifeDays) * (sameVenue ? 1 : REVERSE_VENUE_WEIGHT)
+            };
+        });
+
+    const relevantMeetings = meetings.reduce((sum, m) => sum + m.relevance, 0);
+
+    return {
+        homeTeamId,
+        awayTeamId,
+        meetings,
+        sameVenue: summarizeVenue(meetings.filter(m => m.sameVenue), halfLifeDays, options.referenceDate),
+        reverseVenue: summarizeVenue(meetings.filter(m => !m.sameVenue), halfLifeDays, options.referenceDate),
+        bttsRate: weightedBTTS(meetings, m => m.relevance),
+        relevantMeetings,
+        weight: calculateH2HWeight(relevantMeetings)
+    };
+};
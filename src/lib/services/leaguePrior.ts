@@ -0,0 +1,46 @@
+// src/lib/services/leaguePrior.ts
+import { Match } from './dataService';
+
+export interface BetaPrior {
+    alpha: number; // pseudo-games with BTTS
+    beta: number; // pseudo-games without
+}
+
+export interface LeaguePrior extends BetaPrior {
+    bttsRate: number; // league-wide BTTS rate the prior is centred on, 0 to 100
+    sampleSize: number; // league games the rate was measured on
+}
+
+// Uninformative prior for callers with no league to lean on
+export const JEFFREYS_PRIOR: BetaPrior = { alpha: 0.5, beta: 0.5 };
+
+// Long-run BTTS rate across the top European leagues
+export const DEFAULT_LEAGUE_BTTS_RATE = 52;
+// How many games of league-average evidence a team's own record has to outweigh
+export const LEAGUE_PRIOR_GAMES = 8;
+
+/**
+ * Beta prior centred on the league's BTTS rate. The rate itself leans on the
+ * long-run default until the league sample is large enough to stand alone.
+ */
+export const calculateLeaguePrior = (matches: Match[], priorGames: number = LEAGUE_PRIOR_GAMES): LeaguePrior => {
+    const games = Array.from(new Map(
+        matches
+            .filter(m => m.status === 'FINISHED' && m.score.home !== null && m.score.away !== null)
+            .map(m => [m.id, m])
+    ).values());
+    const bttsGames = games.filter(m => m.score.home! > 0 && m.score.away! > 0).length;
+
+    const rate = (bttsGames + (DEFAULT_LEAGUE_BTTS_RATE / 100) * priorGames) / (games.length + priorGames);
+
+    return {
+        alpha: rate * priorGames,
+        beta: (1 - rate) * priorGames,
+        bttsRate: rate * 100,
+        sampleSize: games.length
+    };
+};
+
+// Posterior mean of a Beta-binomial: the observed rate pulled toward the prior by its pseudo-games
+export const shrinkTowardPrior = (percentage: number, sampleSize: number, prior: BetaPrior): number =>
+    ((prior.alpha + (percentage / 100) * sampleSize) / (prior.alpha + prior.beta + sampleSize)) * 100;
@@ -0,0 +1,111 @@
+// src/lib/services/ledgerAccuracy.ts
+
+import { LedgerEntry } from './predictionLedger';
+import { ReliabilityBin, ScoredSample, buildReliabilityTable, calculateBrierScore, calculateHitRate } from '../backtest/metrics';
+
+export const ROLLING_WINDOW = 20;
+
+export interface AccuracySlice {
+    key: string;
+    label: string;
+    settled: number;
+    won: number;
+    hitRate: number; // 0 to 100
+    brierScore: number;
+}
+
+export interface RollingPoint {
+    date: string;
+    hitRate: number; // over the last ROLLING_WINDOW settled picks, 0 to 100
+    brierScore: number;
+}
+
+export interface AccuracyReport {
+    overall: AccuracySlice;
+    reliability: ReliabilityBin[];
+    rolling: RollingPoint[];
+    byCompetition: AccuracySlice[];
+    byRiskLevel: AccuracySlice[];
+    byConfidence: AccuracySlice[];
+}
+
+const isSettled = (entry: LedgerEntry): boolean => entry.status === 'WON' || entry.status === 'LOST';
+
+const toSample = (entry: LedgerEntry): ScoredSample => {
+    const pick = entry.prediction.prediction === 'YES' ? 1 : 0;
+    return {
+        probability: entry.prediction.bttsProbability / 100,
+        // A won NO pick means BTTS did not happen
+        outcome: (entry.status === 'WON' ? pick : 1 - pick) as 0 | 1,
+        pick
+    };
+};
+
+export const buildAccuracySlice = (key: string, label: string, entries: LedgerEntry[]): AccuracySlice => {
+    const settled = entries.filter(isSettled);
+    const samples = settled.map(toSample);
+
+    return {
+        key,
+        label,
+        settled: settled.length,
+        won: settled.filter(e => e.status === 'WON').length,
+        hitRate: calculateHitRate(samples) * 100,
+        brierScore: calculateBrierScore(samples)
+    };
+};
+
+const groupSlices = (
+    entries: LedgerEntry[],
+    keyOf: (entry: LedgerEntry) => string,
+    labelOf: (key: string) => string
+): AccuracySlice[] => {
+    const groups = new Map<string, LedgerEntry[]>();
+    entries.forEach(e => {
+        const key = keyOf(e);
+        groups.set(key, [...(groups.get(key) || []), e]);
+    });
+
+    return Array.from(groups.entries())
+        .map(([key, group]) => buildAccuracySlice(key, labelOf(key), group))
+        .sort((a, b) => b.settled - a.settled);
+};
+
+// Keeps a fixed order so LOW/MEDIUM/HIGH read as a scale rather than by sample size
+const orderBy = (slices: AccuracySlice[], order: string[]): AccuracySlice[] =>
+    [...slices].sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key));
+
+export const buildRollingAccuracy = (entries: LedgerEntry[], window: number = ROLLING_WINDOW): RollingPoint[] => {
+    const settled = entries
+        .filter(isSettled)
+        .sort((a, b) => new Date(a.matchDate).getTime() - new Date(b.matchDate).getTime());
+
+    return settled.map((entry, i) => {
+        const samples = settled.slice(Math.max(0, i - window + 1), i + 1).map(toSample);
+        return {
+            date: entry.matchDate,
+            hitRate: calculateHitRate(samples) * 100,
+            brierScore: calculateBrierScore(samples)
+        };
+    });
+};
+
+export const buildAccuracyReport = (
+    entries: LedgerEntry[],
+    competitionName: (competitionId: number) => string = id => `Competition ${id}`
+): AccuracyReport => {
+    const settled = entries.filter(isSettled);
+
+    return {
+        overall: buildAccuracySlice('all', 'All picks', settled),
+        reliability: buildReliabilityTable(settled.map(toSample)),
+        rolling: buildRollingAccuracy(settled),
+        byCompetition: groupSlices(
+            settled,
+            e => String(e.competitionId ?? 'unknown'),
+            key => key === 'unknown' ? 'Unknown' : competitionName(parseInt(key))
+        ),
+        byRiskLevel: orderBy(groupSlices(settled, e => e.prediction.riskLevel, key => `${key} risk`), ['LOW', 'MEDIUM', 'HIGH']),
+        byConfidence: orderBy(groupSlices(settled, e => e.prediction.confidenceInterval.confidence, key => `${key} confidence`), ['HIGH', 'MEDIUM', 'LOW'])
+    };
+};
@@ -0,0 +1,50 @@
+// src/lib/services/matchArchive.ts
+
+import fs from 'fs';
+import { Match } from './dataService';
+import { JsonFileStore } from '../storage/jsonFileStore';
+
+interface ArchiveState {
+    matches: Record<string, Match>;
+}
+
+const archiveFile = new JsonFileStore<ArchiveState>('match-archive.json', () => ({ matches: {} }));
+
+/**
+ * Records finished matches so backtests can replay them later without the API.
+ * Re-seeing a match overwrites it, which picks up late score corrections.
+ */
+export const archiveMatches = (matches: Match[]): void => {
+    const finished = matches.filter(m => m.status === 'FINISHED' && m.score.home !== null && m.score.away !== null);
+    if (finished.length === 0) return;
+
+    try {
+        archiveFile.update(state => {
+            let changed = false;
+            finished.forEach(m => {
+                const existing = state.matches[String(m.id)];
+                // Keep the competition id if a later payload for the same match lacked it
+                const merged = { ...m, competitionId: m.competitionId ?? existing?.competitionId };
+                if (JSON.stringify(existing) !== JSON.stringify(merged)) {
+                    state.matches[String(m.id)] = merged;
+                    changed = true;
+                }
+            });
+            return changed;
+        });
+    } catch (error) {
+        console.warn('[MatchArchive] Failed to archive matches:', error);
+    }
+};
+
+export const getArchivedMatches = (competitionId?: number): Match[] =>
+    Object.values(archiveFile.read().matches)
+        .filter(m => competitionId === undefined || m.competitionId === competitionId)
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+// Recorded fixtures exported elsewhere (a Match[] JSON file) can be replayed the same way
+export const loadRecordedMatches = (filePath: string): Match[] => {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    const matches: Match[] = Array.isArray(parsed) ? parsed : parsed.matches || [];
+    return matches.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
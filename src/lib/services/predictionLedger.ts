@@ -0,0 +1,168 @@
+// src/lib/services/predictionLedger.ts
+
+import { Match, ScoreLine } from './dataService';
+import { EnhancedPrediction } from './predictionService';
+import { JsonFileStore } from '../storage/jsonFileStore';
+
+export type LedgerStatus = 'PENDING' | 'WON' | 'LOST' | 'VOID';
+
+export interface LedgerEntry {
+    id: string; // `${matchId}:${modelId}`
+    matchId: number;
+    competitionId?: number;
+    matchDate: string;
+    homeTeam: string;
+    awayTeam: string;
+    modelId: string;
+    modelVersion: string;
+    recordedAt: string;
+    prediction: EnhancedPrediction;
+    status: LedgerStatus;
+    settledAt?: string;
+    finalScore?: ScoreLine; // the score the pick was settled on
+}
+
+export interface LedgerFilters {
+    competitionId?: number;
+    from?: string; // inclusive, compared against the match date
+    to?: string; // inclusive; a bare YYYY-MM-DD covers that whole day
+    modelId?: string;
+    status?: LedgerStatus;
+}
+
+export interface LedgerSummary {
+    total: number;
+    pending: number;
+    won: number;
+    lost: number;
+    void: number;
+    hitRate: number | null; // won / (won + lost), 0 to 100
+}
+
+interface LedgerState {
+    entries: Record<string, LedgerEntry>;
+}
+
+// Statuses that mean the match has not kicked off, so the pick can still be refreshed
+const OPEN_STATUSES = ['SCHEDULED', 'TIMED'];
+const VOID_STATUSES = ['POSTPONED', 'CANCELLED'];
+
+const ledgerFile = new JsonFileStore<LedgerState>('prediction-ledger.json', () => ({ entries: {} }));
+
+const entryId = (matchId: number, modelId: string): string => `${matchId}:${modelId}`;
+
+/**
+ * Stores the pick each model made for a match. Until kick-off a newer prediction
+ * replaces the older one, so the ledger holds the last call made before the game.
+ */
+export const recordPredictions = (picks: { match: Match; prediction: EnhancedPrediction }[]): void => {
+    const open = picks.filter(p => p.prediction.model && OPEN_STATUSES.includes(p.match.status));
+    if (open.length === 0) return;
+
+    try {
+        ledgerFile.update(state => {
+            const recordedAt = new Date().toISOString();
+            open.forEach(({ match, prediction }) => {
+                const { id: modelId, version: modelVersion } = prediction.model!;
+                const id = entryId(match.id, modelId);
+                if (state.entries[id] && state.entries[id].status !== 'PENDING') return;
+
+                state.entries[id] = {
+                    id,
+                    matchId: match.id,
+                    competitionId: match.competitionId,
+                    matchDate: match.date,
+                    homeTeam: match.homeTeam,
+                    awayTeam: match.awayTeam,
+                    modelId,
+                    modelVersion,
+                    recordedAt,
+                    prediction,
+                    status: 'PENDING'
+                };
+            });
+        });
+    } catch (error) {
+        console.warn('[PredictionLedger] Failed to record predictions:', error);
+    }
+};
+
+// BTTS is settled on 90 minutes, so extra-time goals don't count
+const settleBTTS = (entry: LedgerEntry, match: Match): { status: LedgerStatus; finalScore?: ScoreLine } | null => {
+    if (VOID_STATUSES.includes(match.status)) return { status: 'VOID' };
+    if (match.status !== 'FINISHED') return null;
+
+    const score = match.score.regularTime ?? match.score;
+    if (score.home === null || score.away === null) return null;
+
+    const btts = score.home > 0 && score.away > 0;
+    const won = (entry.prediction.prediction === 'YES') === btts;
+    return { status: won ? 'WON' : 'LOST', finalScore: { home: score.home, away: score.away } };
+};
+
+/**
+ * Settles pending picks against fresh match payloads. Called with every batch of
+ * matches the data service sees; matches without a pending pick are ignored.
+ */
+export const settleLedger = (matches: Match[]): void => {
+    if (matches.length === 0) return;
+
+    try {
+        ledgerFile.update(state => {
+            const byMatch = new Map(matches.map(m => [m.id, m]));
+            const settledAt = new Date().toISOString();
+            let changed = false;
+
+            Object.values(state.entries).forEach(entry => {
+                const match = byMatch.get(entry.matchId);
+                if (entry.status !== 'PENDING' || !match) return;
+
+                const settlement = settleBTTS(entry, match);
+                if (!settlement) return;
+
+                Object.assign(entry, settlement, { settledAt });
+                changed = true;
+            });
+
+            return changed;
+        });
+    } catch (error) {
+        console.warn('[PredictionLedger] Failed to settle predictions:', error);
+    }
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// A date-only upper bound parses as that day's midnight, which would drop every match played on it
+const endOfRange = (to: string): number =>
+    DATE_ONLY.test(to) ? new Date(`${to}T23:59:59.999Z`).getTime() : new Date(to).getTime();
+
+export const queryLedger = (filters: LedgerFilters = {}): LedgerEntry[] => {
+    const from = filters.from ? new Date(filters.from).getTime() : -Infinity;
+    const to = filters.to ? endOfRange(filters.to) : Infinity;
+
+    return Object.values(ledgerFile.read().entries)
+        .filter(e => filters.competitionId === undefined || e.competitionId === filters.competitionId)
+        .filter(e => filters.modelId === undefined || e.modelId === filters.modelId)
+        .filter(e => filters.status === undefined || e.status === filters.status)
+        .filter(e => {
+            const date = new Date(e.matchDate).getTime();
+            return date >= from && date <= to;
+        })
+        .sort((a, b) => new Date(b.matchDate).getTime() - new Date(a.matchDate).getTime());
+};
+
+export const summarizeLedger = (entries: LedgerEntry[]): LedgerSummary => {
+    const count = (status: LedgerStatus) => entries.filter(e => e.status === status).length;
+    const won = count('WON');
+    const lost = count('LOST');
+
+    return {
+        total: entries.length,
+        pending: count('PENDING'),
+        won,
+        lost,
+        void: count('VOID'),
+        hitRate: won + lost > 0 ? (won / (won + lost)) * 100 : null
+    };
+};
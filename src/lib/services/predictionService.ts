@@ -1,5 +1,34 @@
 // src/lib/services/predictionService.ts
-import { Match } from './dataService';
+import { Match, Scorer, StandingRow } from './dataService';
+import { poissonCumulative } from '../stats/distributions';
+import { betaQuantile } from '../stats/beta';
+import { calculateRecencyWeight } from '../stats/recency';
+import type { ResultPrediction } from './resultPrediction';
+import type { CalibrationModel } from './calibration';
+import type { HalfMarkets } from './halfMarkets';
+import { calculateRatingMismatch } from './eloRating';
+import {
+    CONGESTION_WINDOW_DAYS,
+    RestEffect,
+    RestProfile,
+    calculateRestProfile,
+    estimateRestEffect,
+    restEffectFor
+} from './fixtureCongestion';
+import {
+    AggregateScore,
+    calculateAggregateAdjustment,
+    describeCompetition,
+    findAggregateScore,
+    getCompetitionType,
+    isKnockoutStage,
+    isNeutralVenue
+} from './competitionContext';
+import { BetaPrior, JEFFREYS_PRIOR, LeaguePrior, calculateLeaguePrior, shrinkTowardPrior } from './leaguePrior';
+import { PredictionFactor, buildReasoning, describeFactors, recordBase, recordFactor } from './factorAttribution';
+import { HeadToHeadSummary, analyzeHeadToHead } from './headToHead';
+import { TableStanding, calculateTableAdjustment, describeTableStanding, findTableStanding } from './tableContext';
+import { GoalConcentration, calculateGoalConcentration, describeGoalConcentration } from './goalConcentration';
 
 export interface Prediction {
     matchId: number;
@@ -7,7 +36,8 @@ export interface Prediction {
     awayTeam: string;
     bttsProbability: number; // 0 to 100
     prediction: 'YES' | 'NO';
-    reasoning: string;
+    factors: PredictionFactor[]; // contributions summing to bttsProbability, in the order they were applied
+    reasoning: string; // generated from the factors
 }
 
 export interface EnhancedPrediction extends Prediction {
@@ -19,10 +49,30 @@ export interface EnhancedPrediction extends Prediction {
     h2hBTTS?: number;
     riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
     keyFactors: string[];
+    competition: string; // competition, stage and tie state the reasoning opens with
     dataQuality: {
         sufficientData: boolean;
         warning?: string;
     };
+    goalLines: GoalLineMarket[];
+    result?: ResultPrediction;
+    halves?: HalfMarkets;
+    calibration?: {
+        version: number;
+        rawProbability: number; // model output before calibration, 0 to 100
+    };
+    model?: {
+        id: string;
+        version: string;
+    };
+}
+
+export const GOAL_LINES = [0.5, 1.5, 2.5, 3.5, 4.5];
+
+export interface GoalLineMarket {
+    line: number;
+    overProbability: number; // 0 to 100
+    underProbability: number; // 0 to 100
 }
 
 export interface AdvancedBTTSStats {
@@ -31,6 +81,7 @@ export interface AdvancedBTTSStats {
     averageTotalGoals: number;
     cleanSheets: number;
     highScoringGames: number;
+    overLineRates: { line: number; rate: number }[]; // % of games with more goals than the line
     scoringConsistency: 'HIGH' | 'MEDIUM' | 'LOW';
 }
 
@@ -44,23 +95,71 @@ export interface ScoringTrend {
 export interface MatchContext {
     homeTeamBTTSAtHome: number;
     awayTeamBTTSAway: number;
-    daysSinceLastMatch: number;
+    homeGamesAtHome: number;
+    awayGamesAway: number;
+    homeRest: RestProfile;
+    awayRest: RestProfile;
     competitionType: string;
+    stage?: string;
+    knockout: boolean; // any stage past the league or group phase
+    neutralVenue: boolean;
+    aggregate?: AggregateScore; // set for the second leg of a two-legged tie
 }
 
 export interface DynamicWeights {
     recentForm: number;
     overallPerformance: number;
     homeAdvantage: number;
-    dataQuality: number;
 }
 
-export const analyzeBTTS = (matches: Match[]): number => {
+// Inputs beyond the raw match histories; everything is optional so callers can supply what they have
+export interface PredictionContext {
+    ratings?: { home: number; away: number }; // Elo ratings before kickoff
+    calibration?: CalibrationModel; // fitted map from raw to calibrated BTTS probability
+    halfLifeDays?: number; // recency weighting for form and trends, defaults to DEFAULT_HALF_LIFE_DAYS
+    restEffect?: RestEffect; // fatigue effect measured on a wider archive; otherwise measured on the histories
+    leaguePrior?: LeaguePrior; // BTTS prior for the competition; otherwise built from the histories
+    standings?: StandingRow[]; // current table of the match's competition, for position and stakes
+    scorers?: Scorer[]; // the competition's scorers feed, read against the table's team goals
+}
+
+// Raw scores run hot, so an uncalibrated YES needs a margin above even odds
+export const BTTS_YES_THRESHOLD = 60;
+export const BTTS_CALIBRATED_THRESHOLD = 50;
+
+// Percentage points removed from BTTS per unit of Elo mismatch (max mismatch is 0.5)
+const ELO_MISMATCH_WEIGHT = 30;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const countFinished = (matches: Match[]): number => matches.filter(m => m.status === 'FINISHED').length;
+
+export const DEFAULT_HALF_LIFE_DAYS = 60;
+// Trends compare today's weighted rate with the same rate as it stood this long ago
+const TREND_LOOKBACK_DAYS = 28;
+
+export interface RecencyOptions {
+    halfLifeDays?: number; // omit for an unweighted rate
+    referenceDate?: string; // ages are measured back from here, usually the kickoff being predicted
+}
+
+export const analyzeBTTS = (matches: Match[], options: RecencyOptions = {}): number => {
     if (matches.length === 0) return 0;
-    const bttsCount = matches.filter(m =>
-        m.score.home !== null && m.score.away !== null && m.score.home > 0 && m.score.away > 0
-    ).length;
-    return (bttsCount / matches.length) * 100;
+
+    const halfLifeDays = options.halfLifeDays;
+    const weightOf = (m: Match) => halfLifeDays ? calculateRecencyWeight(m.date, options.referenceDate, halfLifeDays) : 1;
+
+    let totalWeight = 0;
+    let bttsWeight = 0;
+    matches.forEach(m => {
+        const weight = weightOf(m);
+        totalWeight += weight;
+        if (m.score.home !== null && m.score.away !== null && m.score.home > 0 && m.score.away > 0) {
+            bttsWeight += weight;
+        }
+    });
+
+    return totalWeight > 0 ? (bttsWeight / totalWeight) * 100 : 0;
 };
 
 export const analyzeAdvancedBTTS = (matches: Match[]): AdvancedBTTSStats => {
@@ -73,6 +172,7 @@ export const analyzeAdvancedBTTS = (matches: Match[]): AdvancedBTTSStats => {
             averageTotalGoals: 0,
             cleanSheets: 0,
             highScoringGames: 0,
+            overLineRates: GOAL_LINES.map(line => ({ line, rate: 0 })),
             scoringConsistency: 'LOW'
         };
     }
@@ -91,6 +191,10 @@ export const analyzeAdvancedBTTS = (matches: Match[]): AdvancedBTTSStats => {
     const averageTotalGoals = scoringAnalysis.reduce((sum, s) => sum + s.totalGoals, 0) / scoringAnalysis.length;
     const cleanSheets = scoringAnalysis.filter(s => s.cleanSheet).length;
     const highScoringGames = scoringAnalysis.filter(s => s.highScoring).length;
+    const overLineRates = GOAL_LINES.map(line => ({
+        line,
+        rate: (scoringAnalysis.filter(s => s.totalGoals > line).length / scoringAnalysis.length) * 100
+    }));
 
     // Calculate scoring consistency based on variance
     const goalVariance = scoringAnalysis.reduce((sum, s) => {
@@ -106,37 +210,79 @@ export const analyzeAdvancedBTTS = (matches: Match[]): AdvancedBTTSStats => {
         averageTotalGoals,
         cleanSheets,
         highScoringGames,
+        overLineRates,
         scoringConsistency
     };
 };
 
-export const calculateConfidenceInterval = (bttsPercentage: number, sampleSize: number): { lower: number; upper: number; confidence: 'HIGH' | 'MEDIUM' | 'LOW' } => {
-    if (sampleSize === 0) {
-        return { lower: 0, upper: 0, confidence: 'LOW' };
-    }
-
-    // Wilson score interval for better confidence with small samples
-    const z = 1.96; // 95% confidence
-    const n = Math.max(1, sampleSize);
-    const p = bttsPercentage / 100;
-
-    const denominator = 1 + z * z / n;
-    const center = (p + z * z / (2 * n)) / denominator;
-    const margin = (z * Math.sqrt(p * (1 - p) / n + z * z / (4 * n * n))) / denominator;
+// Pseudo-games given to the Poisson estimate when blending with observed line hit-rates
+const GOAL_LINE_PRIOR_GAMES = 4;
+
+export const calculateGoalLineMarkets = (
+    homeStats: AdvancedBTTSStats,
+    awayStats: AdvancedBTTSStats,
+    homeGames: number,
+    awayGames: number
+): GoalLineMarket[] => {
+    const sampleSize = homeGames + awayGames;
+    const expectedTotal = sampleSize > 0
+        ? (homeStats.averageTotalGoals * homeGames + awayStats.averageTotalGoals * awayGames) / sampleSize
+        : 0;
+
+    return GOAL_LINES.map((line, index) => {
+        const observed = sampleSize > 0
+            ? (homeStats.overLineRates[index].rate * homeGames + awayStats.overLineRates[index].rate * awayGames) / sampleSize
+            : 0;
+
+        // Small samples lean on a Poisson tail around the average total so lines stay monotonic
+        const modelled = expectedTotal > 0 ? (1 - poissonCumulative(Math.floor(line), expectedTotal)) * 100 : 0;
+        const observedWeight = sampleSize / (sampleSize + GOAL_LINE_PRIOR_GAMES);
+        const overProbability = Math.min(100, Math.max(0, observed * observedWeight + modelled * (1 - observedWeight)));
+
+        return { line, overProbability, underProbability: 100 - overProbability };
+    });
+};
 
-    const lower = Math.max(0, (center - margin) * 100);
-    const upper = Math.min(100, (center + margin) * 100);
+/**
+ * 95% credible interval from the Beta posterior: the prior's pseudo-games plus
+ * the observed rate over sampleSize games. With no games it is just the prior.
+ */
+export const calculateConfidenceInterval = (
+    bttsPercentage: number,
+    sampleSize: number,
+    prior: BetaPrior = JEFFREYS_PRIOR
+): { lower: number; upper: number; confidence: 'HIGH' | 'MEDIUM' | 'LOW' } => {
+    const successes = (bttsPercentage / 100) * sampleSize;
+    const alpha = prior.alpha + successes;
+    const beta = prior.beta + sampleSize - successes;
+
+    const lower = betaQuantile(0.025, alpha, beta) * 100;
+    const upper = betaQuantile(0.975, alpha, beta) * 100;
     const confidence = sampleSize >= 5 ? 'HIGH' : sampleSize >= 3 ? 'MEDIUM' : 'LOW';
 
     return { lower, upper, confidence };
 };
 
-export const analyzeScoringTrends = (matches: Match[]): ScoringTrend => {
-    const recent5 = matches.slice(0, 5).filter(m => m.status === 'FINISHED');
-    const previous5 = matches.slice(5, 10).filter(m => m.status === 'FINISHED');
+// Wider intervals mean less certainty, so the interval width drives the risk bucket
+export const assessRiskLevel = (interval: { lower: number; upper: number }): 'LOW' | 'MEDIUM' | 'HIGH' => {
+    const width = interval.upper - interval.lower;
+    return width < 20 ? 'LOW' : width < 35 ? 'MEDIUM' : 'HIGH';
+};
+
+export const analyzeScoringTrends = (matches: Match[], options: RecencyOptions = {}): ScoringTrend => {
+    const halfLifeDays = options.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+    const reference = options.referenceDate ? new Date(options.referenceDate).getTime() : Date.now();
+    const lookbackTime = reference - TREND_LOOKBACK_DAYS * MS_PER_DAY;
+    const lookbackDate = new Date(lookbackTime).toISOString();
 
-    const recentBTTS = analyzeBTTS(recent5);
-    const previousBTTS = analyzeBTTS(previous5);
+    const finished = matches.filter(m => m.status === 'FINISHED');
+    const earlier = finished.filter(m => new Date(m.date).getTime() < lookbackTime);
+
+    const recentBTTS = analyzeBTTS(finished, { halfLifeDays, referenceDate: options.referenceDate });
+    // With nothing older than the lookback there is no earlier reading, so report no change
+    const previousBTTS = earlier.length > 0
+        ? analyzeBTTS(earlier, { halfLifeDays, referenceDate: lookbackDate })
+        : recentBTTS;
 
     const trend = recentBTTS - previousBTTS;
 
@@ -148,7 +294,7 @@ export const analyzeScoringTrends = (matches: Match[]): ScoringTrend => {
     };
 };
 
-export const calculateDynamicWeights = (homeHistory: Match[], awayHistory: Match[]): DynamicWeights => {
+export const calculateDynamicWeights = (homeHistory: Match[], awayHistory: Match[], neutralVenue: boolean = false): DynamicWeights => {
     const homeGames = homeHistory.filter(m => m.status === 'FINISHED').length;
     const awayGames = awayHistory.filter(m => m.status === 'FINISHED').length;
     const totalGames = homeGames + awayGames;
@@ -157,66 +303,166 @@ export const calculateDynamicWeights = (homeHistory: Match[], awayHistory: Match
     const recentFormWeight = Math.max(0.5, Math.min(0.8, totalGames / 20));
     const overallWeight = 1 - recentFormWeight;
 
-    // Small boost for home teams and data quality penalty for insufficient data
+    // Small samples are handled by shrinking toward the league prior, not here
     return {
         recentForm: recentFormWeight,
         overallPerformance: overallWeight,
-        homeAdvantage: 0.05, // Small boost for home teams
-        dataQuality: Math.min(1, totalGames / 10) // Penalty for insufficient data
+        homeAdvantage: neutralVenue ? 0 : 0.05 // Small boost for home teams, none when neither side is at home
     };
 };
 
-export const analyzeMatchContext = (match: Match, history: Match[]): MatchContext => {
-    const isHomeAdvantage = history.filter(m =>
+export const analyzeMatchContext = (match: Match, homeHistory: Match[], awayHistory: Match[]): MatchContext => {
+    // Venue splits: the home side's home games and the away side's road games
+    const homeGamesAtHome = homeHistory.filter(m =>
         m.homeTeamId === match.homeTeamId && m.status === 'FINISHED'
     );
 
-    const isAwayDisadvantage = history.filter(m =>
+    const awayGamesAway = awayHistory.filter(m =>
         m.awayTeamId === match.awayTeamId && m.status === 'FINISHED'
     );
 
-    // Calculate days since last match (simplified)
-    const lastMatch = history.find(m => m.status === 'FINISHED');
-    const daysSinceLastMatch = lastMatch ?
-        Math.max(0, Math.floor((new Date(match.date).getTime() - new Date(lastMatch.date).getTime()) / (1000 * 60 * 60 * 24))) :
-        7; // Default assumption
+    return {
+        homeTeamBTTSAtHome: analyzeBTTS(homeGamesAtHome),
+        awayTeamBTTSAway: analyzeBTTS(awayGamesAway),
+        homeGamesAtHome: homeGamesAtHome.length,
+        awayGamesAway: awayGamesAway.length,
+        homeRest: calculateRestProfile(match.homeTeamId, homeHistory, match.date),
+        awayRest: calculateRestProfile(match.awayTeamId, awayHistory, match.date),
+        competitionType: getCompetitionType(match),
+        stage: match.stage,
+        knockout: isKnockoutStage(match),
+        neutralVenue: isNeutralVenue(match),
+        aggregate: findAggregateScore(match, [...homeHistory, ...awayHistory])
+    };
+};
+
+// Each venue split can take at most this share of the probability...
+const VENUE_SPLIT_MAX_WEIGHT = 0.15;
+// ...approached as the split sample grows past this many games
+const VENUE_SPLIT_HALF_WEIGHT_GAMES = 5;
 
+export const calculateVenueSplitWeight = (games: number): number =>
+    VENUE_SPLIT_MAX_WEIGHT * (games / (games + VENUE_SPLIT_HALF_WEIGHT_GAMES));
+
+const describeRest = (side: string, profile: RestProfile, delta: number): string => {
+    const label = profile.state === 'SHORT_REST'
+        ? `${side} team on ${profile.daysRest} days' rest`
+        : `${side} team: ${profile.gamesInWindow} games in ${CONGESTION_WINDOW_DAYS} days`;
+    return delta !== 0 ? `${label} (${delta > 0 ? '+' : ''}${delta.toFixed(1)}pp)` : label;
+};
+
+// Table context only applies to league games, where both sides share the table
+const findTableStandings = (match: Match, standings: StandingRow[] = []): { homeTable?: TableStanding; awayTable?: TableStanding } => {
+    if (getCompetitionType(match) !== 'LEAGUE') return {};
     return {
-        homeTeamBTTSAtHome: analyzeBTTS(isHomeAdvantage),
-        awayTeamBTTSAway: analyzeBTTS(isAwayDisadvantage),
-        daysSinceLastMatch,
-        competitionType: 'LEAGUE' // Default, can be enhanced
+        homeTable: findTableStanding(match.homeTeamId, standings),
+        awayTable: findTableStanding(match.awayTeamId, standings)
     };
 };
 
-export const generatePrediction = (match: Match, homeHistory: Match[], awayHistory: Match[]): Prediction => {
-    // Overall History (Last 10)
+const findGoalConcentrations = (match: Match, context: PredictionContext): { homeConcentration?: GoalConcentration; awayConcentration?: GoalConcentration } => ({
+    homeConcentration: calculateGoalConcentration(match.homeTeamId, context.scorers ?? [], context.standings ?? []),
+    awayConcentration: calculateGoalConcentration(match.awayTeamId, context.scorers ?? [], context.standings ?? [])
+});
+
+// What the enhanced prediction reads off the histories, gathered for display next to its factors
+export interface PredictionInputs {
+    halfLifeDays: number;
+    homeForm: number; // recency-weighted BTTS rate, 0 to 100
+    awayForm: number;
+    homeOverall: number; // unweighted BTTS rate, 0 to 100
+    awayOverall: number;
+    homeTrend: ScoringTrend;
+    awayTrend: ScoringTrend;
+    weights: DynamicWeights;
+    headToHead: HeadToHeadSummary;
+    matchContext: MatchContext;
+    leaguePrior: LeaguePrior;
+    homeTable?: TableStanding;
+    awayTable?: TableStanding;
+    homeConcentration?: GoalConcentration;
+    awayConcentration?: GoalConcentration;
+}
+
+export const collectPredictionInputs = (
+    match: Match,
+    homeHistory: Match[],
+    awayHistory: Match[],
+    headToHead: Match[] = [],
+    context: PredictionContext = {}
+): PredictionInputs => {
+    const halfLifeDays = context.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+    const recency = { halfLifeDays, referenceDate: match.date };
+
+    return {
+        halfLifeDays,
+        homeForm: analyzeBTTS(homeHistory, recency),
+        awayForm: analyzeBTTS(awayHistory, recency),
+        homeOverall: analyzeBTTS(homeHistory),
+        awayOverall: analyzeBTTS(awayHistory),
+        homeTrend: analyzeScoringTrends(homeHistory, recency),
+        awayTrend: analyzeScoringTrends(awayHistory, recency),
+        weights: calculateDynamicWeights(homeHistory, awayHistory, isNeutralVenue(match)),
+        headToHead: analyzeHeadToHead(match.homeTeamId, match.awayTeamId, headToHead, { referenceDate: match.date }),
+        matchContext: analyzeMatchContext(match, homeHistory, awayHistory),
+        leaguePrior: context.leaguePrior ?? calculateLeaguePrior([...homeHistory, ...awayHistory]),
+        ...findTableStandings(match, context.standings),
+        ...findGoalConcentrations(match, context)
+    };
+};
+
+export const generatePrediction = (
+    match: Match,
+    homeHistory: Match[],
+    awayHistory: Match[],
+    halfLifeDays: number = DEFAULT_HALF_LIFE_DAYS,
+    leaguePrior: LeaguePrior = calculateLeaguePrior([...homeHistory, ...awayHistory])
+): Prediction => {
+    // Overall History (unweighted)
     const homeOverallBTTS = analyzeBTTS(homeHistory);
     const awayOverallBTTS = analyzeBTTS(awayHistory);
 
-    // Recent Form (Last 5)
-    const homeRecentHistory = homeHistory.slice(0, 5);
-    const awayRecentHistory = awayHistory.slice(0, 5);
-
-    const homeFormBTTS = analyzeBTTS(homeRecentHistory);
-    const awayFormBTTS = analyzeBTTS(awayRecentHistory);
+    // Recent Form (recency-weighted back from kickoff)
+    const recency = { halfLifeDays, referenceDate: match.date };
+    const homeFormBTTS = analyzeBTTS(homeHistory, recency);
+    const awayFormBTTS = analyzeBTTS(awayHistory, recency);
 
     // Dynamic weighting
-    const weights = calculateDynamicWeights(homeHistory, awayHistory);
+    const weights = calculateDynamicWeights(homeHistory, awayHistory, isNeutralVenue(match));
 
     // Weighted Probability with dynamic weights
-    const homeWeighted = (homeFormBTTS * weights.recentForm) + (homeOverallBTTS * weights.overallPerformance) + (weights.homeAdvantage * 100);
+    const homeWeighted = (homeFormBTTS * weights.recentForm) + (homeOverallBTTS * weights.overallPerformance);
     const awayWeighted = (awayFormBTTS * weights.recentForm) + (awayOverallBTTS * weights.overallPerformance);
 
-    const probability = Math.min(100, Math.max(0, ((homeWeighted + awayWeighted) / 2) * weights.dataQuality));
+    const factors: PredictionFactor[] = [];
+    let probability = recordBase(factors, 'form', `Form (${halfLifeDays}-day half-life)`, (homeWeighted + awayWeighted) / 2, {
+        homeForm: homeFormBTTS,
+        awayForm: awayFormBTTS,
+        homeOverall: homeOverallBTTS,
+        awayOverall: awayOverallBTTS,
+        formWeight: weights.recentForm
+    });
+    probability = recordFactor(factors, 'homeAdvantage', 'Home advantage', probability, probability + (weights.homeAdvantage * 100) / 2, {
+        boost: weights.homeAdvantage * 100
+    });
+
+    // Thin histories lean on the league rate instead of being trusted at face value
+    const sampleSize = countFinished(homeHistory) + countFinished(awayHistory);
+    probability = recordFactor(factors, 'leaguePrior', 'League prior', probability, shrinkTowardPrior(probability, sampleSize, leaguePrior), {
+        leagueRate: leaguePrior.bttsRate,
+        leagueGames: leaguePrior.sampleSize,
+        teamGames: sampleSize
+    });
+    probability = recordFactor(factors, 'bounds', 'Bounds', probability, Math.min(100, Math.max(0, probability)));
 
     return {
         matchId: match.id,
         homeTeam: match.homeTeam,
         awayTeam: match.awayTeam,
         bttsProbability: probability,
-        prediction: probability > 60 ? 'YES' : 'NO',
-        reasoning: `Form (Last 5): Home ${homeFormBTTS.toFixed(0)}%, Away ${awayFormBTTS.toFixed(0)}%. Overall: Home ${homeOverallBTTS.toFixed(0)}%, Away ${awayOverallBTTS.toFixed(0)}%.`
+        prediction: probability > BTTS_YES_THRESHOLD ? 'YES' : 'NO',
+        factors,
+        reasoning: describeFactors(factors)
     };
 };
 
@@ -224,66 +470,158 @@ export const generateEnhancedPrediction = (
     match: Match,
     homeHistory: Match[],
     awayHistory: Match[],
-    headToHead: Match[] = []
+    headToHead: Match[] = [],
+    context: PredictionContext = {}
 ): EnhancedPrediction => {
 
-    const basePrediction = generatePrediction(match, homeHistory, awayHistory);
+    const halfLifeDays = context.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+    const leaguePrior = context.leaguePrior ?? calculateLeaguePrior([...homeHistory, ...awayHistory]);
+    const basePrediction = generatePrediction(match, homeHistory, awayHistory, halfLifeDays, leaguePrior);
     const homeAdvancedStats = analyzeAdvancedBTTS(homeHistory);
     const awayAdvancedStats = analyzeAdvancedBTTS(awayHistory);
-    const homeTrend = analyzeScoringTrends(homeHistory);
-    const awayTrend = analyzeScoringTrends(awayHistory);
-    const h2hBTTS = analyzeBTTS(headToHead);
-    const matchContext = analyzeMatchContext(match, [...homeHistory, ...awayHistory]);
+    const homeTrend = analyzeScoringTrends(homeHistory, { halfLifeDays, referenceDate: match.date });
+    const awayTrend = analyzeScoringTrends(awayHistory, { halfLifeDays, referenceDate: match.date });
+    const h2h = analyzeHeadToHead(match.homeTeamId, match.awayTeamId, headToHead, { referenceDate: match.date });
+    const h2hBTTS = h2h.bttsRate;
+    const matchContext = analyzeMatchContext(match, homeHistory, awayHistory);
 
     // Enhanced probability calculation
-    const h2hWeight = headToHead.length > 0 ? 0.2 : 0;
     const trendWeight = 0.1;
 
+    // Every adjustment below is recorded as a factor on top of the base ones
+    const factors: PredictionFactor[] = [...basePrediction.factors];
     let enhancedProbability = basePrediction.bttsProbability;
 
-    // Add H2H influence
-    if (headToHead.length > 0) {
-        enhancedProbability = (enhancedProbability * (1 - h2hWeight)) + (h2hBTTS * h2hWeight);
-    }
+    // Add H2H influence, trusted more the more recent meetings at this venue there are
+    enhancedProbability = recordFactor(factors, 'h2h', 'Head-to-head', enhancedProbability,
+        (enhancedProbability * (1 - h2h.weight)) + (h2hBTTS * h2h.weight),
+        { h2hBTTS, meetings: h2h.meetings.length, sameVenue: h2h.sameVenue.meetings, relevantMeetings: h2h.relevantMeetings, weight: h2h.weight });
+
+    // Blend in venue-specific form, trusting each split more as its sample grows
+    const homeVenueWeight = calculateVenueSplitWeight(matchContext.homeGamesAtHome);
+    const awayVenueWeight = calculateVenueSplitWeight(matchContext.awayGamesAway);
+    enhancedProbability = recordFactor(factors, 'venueSplit', 'Venue splits', enhancedProbability,
+        (enhancedProbability * (1 - homeVenueWeight - awayVenueWeight)) +
+        (matchContext.homeTeamBTTSAtHome * homeVenueWeight) +
+        (matchContext.awayTeamBTTSAway * awayVenueWeight),
+        {
+            homeAtHome: matchContext.homeTeamBTTSAtHome,
+            homeGamesAtHome: matchContext.homeGamesAtHome,
+            awayOnRoad: matchContext.awayTeamBTTSAway,
+            awayGamesAway: matchContext.awayGamesAway
+        });
 
     // Add trend influence
-    if (homeTrend.trend === 'IMPROVING' && awayTrend.trend === 'IMPROVING') {
-        enhancedProbability += trendWeight * 10;
-    } else if (homeTrend.trend === 'DECLINING' && awayTrend.trend === 'DECLINING') {
-        enhancedProbability -= trendWeight * 10;
-    }
-
-    enhancedProbability = Math.min(100, Math.max(0, enhancedProbability));
-
-    // Calculate confidence interval
-    const totalSampleSize = homeHistory.length + awayHistory.length + headToHead.length;
-    const confidenceInterval = calculateConfidenceInterval(enhancedProbability, totalSampleSize);
+    const trendDelta = homeTrend.trend === 'IMPROVING' && awayTrend.trend === 'IMPROVING' ? trendWeight * 10
+        : homeTrend.trend === 'DECLINING' && awayTrend.trend === 'DECLINING' ? -trendWeight * 10
+            : 0;
+    enhancedProbability = recordFactor(factors, 'trend', 'Scoring trends', enhancedProbability, enhancedProbability + trendDelta, {
+        homeTrend: homeTrend.trend,
+        awayTrend: awayTrend.trend
+    });
+
+    // Fatigue: shift by the BTTS change measured in past games with a similarly rested side
+    const restEffect = context.restEffect ?? estimateRestEffect([...homeHistory, ...awayHistory]);
+    const homeRestDelta = restEffectFor(restEffect, matchContext.homeRest);
+    const awayRestDelta = restEffectFor(restEffect, matchContext.awayRest);
+    enhancedProbability = recordFactor(factors, 'homeRest', 'Home rest', enhancedProbability, enhancedProbability + homeRestDelta, {
+        state: matchContext.homeRest.state,
+        daysRest: matchContext.homeRest.daysRest,
+        gamesInWindow: matchContext.homeRest.gamesInWindow
+    });
+    enhancedProbability = recordFactor(factors, 'awayRest', 'Away rest', enhancedProbability, enhancedProbability + awayRestDelta, {
+        state: matchContext.awayRest.state,
+        daysRest: matchContext.awayRest.daysRest,
+        gamesInWindow: matchContext.awayRest.gamesInWindow
+    });
+
+    // Second legs: the first-leg result decides who has to chase the game
+    const aggregateDelta = matchContext.aggregate ? calculateAggregateAdjustment(matchContext.aggregate) : 0;
+    enhancedProbability = recordFactor(factors, 'aggregate', 'Aggregate score', enhancedProbability, enhancedProbability + aggregateDelta, {
+        home: matchContext.aggregate?.home ?? null,
+        away: matchContext.aggregate?.away ?? null
+    });
+
+    // Late in a league season a side safe from every race tends to play more openly
+    const { homeTable, awayTable } = findTableStandings(match, context.standings);
+    const tableDelta = calculateTableAdjustment(homeTable, awayTable);
+    enhancedProbability = recordFactor(factors, 'standings', 'Table stakes', enhancedProbability, enhancedProbability + tableDelta, {
+        homePosition: homeTable?.position ?? null,
+        homeGapAbove: homeTable?.gapAbove ?? null,
+        homeNothingToPlayFor: homeTable?.nothingToPlayFor ?? null,
+        awayPosition: awayTable?.position ?? null,
+        awayGapAbove: awayTable?.gapAbove ?? null,
+        awayNothingToPlayFor: awayTable?.nothingToPlayFor ?? null
+    });
+
+    // Opponent strength: lopsided fixtures make it likelier the weaker side blanks
+    const ratingMismatch = context.ratings
+        ? calculateRatingMismatch(context.ratings.home, context.ratings.away, matchContext.neutralVenue)
+        : 0;
+    enhancedProbability = recordFactor(factors, 'strengthMismatch', 'Strength mismatch', enhancedProbability,
+        enhancedProbability - ratingMismatch * ELO_MISMATCH_WEIGHT,
+        { homeRating: context.ratings?.home ?? null, awayRating: context.ratings?.away ?? null, mismatch: ratingMismatch });
+
+    enhancedProbability = recordFactor(factors, 'bounds', 'Bounds', enhancedProbability, Math.min(100, Math.max(0, enhancedProbability)));
+
+    // The league prior is already in the point estimate, so the interval only adds Jeffreys' half-games
+    const totalSampleSize = countFinished(homeHistory) + countFinished(awayHistory) + h2h.meetings.length;
+    const confidenceInterval = calculateConfidenceInterval(enhancedProbability, totalSampleSize, JEFFREYS_PRIOR);
 
     // Determine risk level
-    const confidence = confidenceInterval.upper - confidenceInterval.lower;
-    const riskLevel = confidence < 20 ? 'LOW' : confidence < 35 ? 'MEDIUM' : 'HIGH';
+    const riskLevel = assessRiskLevel(confidenceInterval);
 
     // Generate key factors
     const keyFactors: string[] = [];
     if (homeAdvancedStats.scoringConsistency === 'HIGH') keyFactors.push('Home team consistent scoring');
     if (awayAdvancedStats.scoringConsistency === 'HIGH') keyFactors.push('Away team consistent scoring');
-    if (headToHead.length > 0) keyFactors.push(`H2H: ${h2hBTTS.toFixed(0)}% BTTS`);
+    if (h2h.meetings.length > 0) keyFactors.push(`H2H: ${h2hBTTS.toFixed(0)}% BTTS (${h2h.meetings.length} meetings, ${h2h.sameVenue.meetings} at this venue)`);
+    if (matchContext.homeGamesAtHome > 0) keyFactors.push(`Home at home: ${matchContext.homeTeamBTTSAtHome.toFixed(0)}% BTTS (${matchContext.homeGamesAtHome} games)`);
+    if (matchContext.awayGamesAway > 0) keyFactors.push(`Away on the road: ${matchContext.awayTeamBTTSAway.toFixed(0)}% BTTS (${matchContext.awayGamesAway} games)`);
     if (homeTrend.trend === 'IMPROVING') keyFactors.push('Home team improving attack');
     if (awayTrend.trend === 'IMPROVING') keyFactors.push('Away team improving attack');
+    if (matchContext.homeRest.state !== 'NORMAL') keyFactors.push(describeRest('Home', matchContext.homeRest, homeRestDelta));
+    if (matchContext.awayRest.state !== 'NORMAL') keyFactors.push(describeRest('Away', matchContext.awayRest, awayRestDelta));
+    if (matchContext.neutralVenue) keyFactors.push('Neutral venue: no home advantage');
+    if (matchContext.knockout && !matchContext.aggregate) keyFactors.push('Knockout tie');
+    if (matchContext.aggregate) {
+        keyFactors.push(`Second leg, aggregate ${matchContext.aggregate.home}-${matchContext.aggregate.away} (${aggregateDelta > 0 ? '+' : ''}${aggregateDelta}pp)`);
+    }
+    if (homeTable) keyFactors.push(describeTableStanding('Home', homeTable));
+    if (awayTable) keyFactors.push(describeTableStanding('Away', awayTable));
+    const { homeConcentration, awayConcentration } = findGoalConcentrations(match, context);
+    if (homeConcentration?.dependent) keyFactors.push(describeGoalConcentration('Home', homeConcentration));
+    if (awayConcentration?.dependent) keyFactors.push(describeGoalConcentration('Away', awayConcentration));
+    if (context.ratings) {
+        keyFactors.push(`Elo: Home ${context.ratings.home.toFixed(0)} vs Away ${context.ratings.away.toFixed(0)}`);
+        if (ratingMismatch > 0.2) keyFactors.push('Strength mismatch lowers BTTS');
+    }
+
+    // Over/under markets from the same finished games
+    const goalLines = calculateGoalLineMarkets(
+        homeAdvancedStats,
+        awayAdvancedStats,
+        countFinished(homeHistory),
+        countFinished(awayHistory)
+    );
 
     // Data quality assessment
     const sufficientData = totalSampleSize >= 5;
     const warning = !sufficientData ? 'Limited historical data available' : undefined;
+    const competition = describeCompetition(match, matchContext.aggregate);
 
     return {
         ...basePrediction,
         bttsProbability: enhancedProbability,
-        prediction: enhancedProbability > 60 ? 'YES' : 'NO',
+        prediction: enhancedProbability > BTTS_YES_THRESHOLD ? 'YES' : 'NO',
         confidenceInterval,
-        h2hBTTS: headToHead.length > 0 ? h2hBTTS : undefined,
+        h2hBTTS: h2h.meetings.length > 0 ? h2hBTTS : undefined,
         riskLevel,
         keyFactors,
         dataQuality: { sufficientData, warning },
-        reasoning: `${basePrediction.reasoning} H2H: ${h2hBTTS.toFixed(0)}% (${headToHead.length} games). Confidence: ${confidenceInterval.confidence}.`
+        goalLines,
+        factors,
+        competition,
+        reasoning: buildReasoning(competition, factors, confidenceInterval.confidence)
     };
 };
@@ -0,0 +1,122 @@
+// src/lib/services/resultPrediction.ts
+import { Match } from './dataService';
+import { calculateConfidenceInterval } from './predictionService';
+import { isNeutralVenue } from './competitionContext';
+
+export type MatchOutcome = 'HOME' | 'DRAW' | 'AWAY';
+
+export interface OutcomeProbability {
+    probability: number; // 0 to 100
+    confidenceInterval: {
+        lower: number;
+        upper: number;
+        confidence: 'HIGH' | 'MEDIUM' | 'LOW';
+    };
+}
+
+export interface ResultPrediction {
+    home: OutcomeProbability;
+    draw: OutcomeProbability;
+    away: OutcomeProbability;
+    doubleChance: {
+        homeOrDraw: OutcomeProbability; // 1X
+        homeOrAway: OutcomeProbability; // 12
+        drawOrAway: OutcomeProbability; // X2
+    };
+    mostLikely: MatchOutcome;
+}
+
+export interface TeamResultRecord {
+    played: number;
+    wins: number;
+    draws: number;
+    losses: number;
+}
+
+// Long-run top-flight split of home wins / draws / away wins
+export const RESULT_BASELINE = { home: 45, draw: 27, away: 28 };
+// The same draw rate with the decisive results split evenly, for grounds neither side calls home
+export const NEUTRAL_RESULT_BASELINE = { home: 36.5, draw: 27, away: 36.5 };
+// Pseudo-games of the baseline blended into the teams' records
+const RESULT_PRIOR_GAMES = 4;
+
+export const analyzeResultRecord = (teamId: number, matches: Match[]): TeamResultRecord => {
+    const record: TeamResultRecord = { played: 0, wins: 0, draws: 0, losses: 0 };
+
+    matches.forEach(m => {
+        if (m.status !== 'FINISHED' || m.score.home === null || m.score.away === null) return;
+        const atHome = m.homeTeamId === teamId;
+        if (!atHome && m.awayTeamId !== teamId) return;
+
+        const goalsFor = atHome ? m.score.home : m.score.away;
+        const goalsAgainst = atHome ? m.score.away : m.score.home;
+
+        record.played++;
+        if (goalsFor > goalsAgainst) record.wins++;
+        else if (goalsFor === goalsAgainst) record.draws++;
+        else record.losses++;
+    });
+
+    return record;
+};
+
+const toOutcome = (probability: number, sampleSize: number): OutcomeProbability => ({
+    probability,
+    confidenceInterval: calculateConfidenceInterval(probability, sampleSize)
+});
+
+/**
+ * Builds the full 1X2 + double-chance family from three raw outcome weights.
+ * The weights are normalised first so every engine produces a coherent book.
+ */
+export const buildResultPrediction = (
+    raw: { home: number; draw: number; away: number },
+    sampleSize: number
+): ResultPrediction => {
+    const total = raw.home + raw.draw + raw.away;
+    const home = total > 0 ? (raw.home / total) * 100 : RESULT_BASELINE.home;
+    const draw = total > 0 ? (raw.draw / total) * 100 : RESULT_BASELINE.draw;
+    const away = total > 0 ? (raw.away / total) * 100 : RESULT_BASELINE.away;
+
+    const mostLikely: MatchOutcome = home >= draw && home >= away ? 'HOME' : away >= draw ? 'AWAY' : 'DRAW';
+
+    return {
+        home: toOutcome(home, sampleSize),
+        draw: toOutcome(draw, sampleSize),
+        away: toOutcome(away, sampleSize),
+        doubleChance: {
+            homeOrDraw: toOutcome(home + draw, sampleSize),
+            homeOrAway: toOutcome(home + away, sampleSize),
+            drawOrAway: toOutcome(draw + away, sampleSize)
+        },
+        mostLikely
+    };
+};
+
+export const predictResult = (match: Match, homeHistory: Match[], awayHistory: Match[]): ResultPrediction => {
+    const homeRecord = analyzeResultRecord(match.homeTeamId, homeHistory);
+    const awayRecord = analyzeResultRecord(match.awayTeamId, awayHistory);
+    const sampleSize = homeRecord.played + awayRecord.played;
+
+    // A home win needs the home side to win and the away side to lose, so average both views
+    const views = (homeCount: number, awayCount: number) => {
+        const rates: number[] = [];
+        if (homeRecord.played > 0) rates.push((homeCount / homeRecord.played) * 100);
+        if (awayRecord.played > 0) rates.push((awayCount / awayRecord.played) * 100);
+        return rates.length > 0 ? rates.reduce((sum, r) => sum + r, 0) / rates.length : 0;
+    };
+
+    const observed = {
+        home: views(homeRecord.wins, awayRecord.losses),
+        draw: views(homeRecord.draws, awayRecord.draws),
+        away: views(homeRecord.losses, awayRecord.wins)
+    };
+
+    // The baseline carries home advantage, except at a neutral venue, and keeps thin records from producing 0% outcomes
+    const baseline = isNeutralVenue(match) ? NEUTRAL_RESULT_BASELINE : RESULT_BASELINE;
+    const observedWeight = sampleSize / (sampleSize + RESULT_PRIOR_GAMES);
+    const blend = (key: keyof typeof RESULT_BASELINE) =>
+        observed[key] * observedWeight + baseline[key] * (1 - observedWeight);
+
+    return buildResultPrediction({ home: blend('home'), draw: blend('draw'), away: blend('away') }, sampleSize);
+};
@@ -0,0 +1,100 @@
+// src/lib/services/tableContext.ts
+import { StandingRow } from './dataService';
+
+export type TableStake = 'TITLE' | 'EUROPE' | 'RELEGATION';
+
+// Where the races are decided in a typical European top flight
+export const EUROPE_PLACES = 4;
+export const RELEGATION_PLACES = 3;
+
+// Percentage points of BTTS for each side with nothing left to play for;
+// dead rubbers are played more openly, with less at stake at the back
+export const DEAD_RUBBER_EFFECT = 3;
+
+const POINTS_PER_WIN = 3;
+
+export interface TableStanding {
+    teamId: number;
+    position: number;
+    points: number;
+    tableSize: number;
+    gamesLeft: number;
+    gapAbove: number | null; // points behind the side one place up, null for the leader
+    gapBelow: number | null; // points ahead of the side one place down, null for the bottom side
+    stakes: TableStake[]; // races the side can still win or lose
+    nothingToPlayFor: boolean;
+}
+
+// Assumes every side plays every other home and away
+const gamesLeft = (row: StandingRow, tableSize: number): number =>
+    Math.max(0, 2 * (tableSize - 1) - row.playedGames);
+
+/**
+ * Whether the line under position `places` can still move for this side:
+ * a side above it can still be caught by the first side below, and a side
+ * below it can still catch the last side above.
+ */
+const isRaceLive = (row: StandingRow, table: StandingRow[], places: number): boolean => {
+    if (places <= 0 || places >= table.length) return false;
+
+    const lastIn = table[places - 1];
+    const firstOut = table[places];
+
+    if (row.position <= places) {
+        return firstOut.points + POINTS_PER_WIN * gamesLeft(firstOut, table.length) >= row.points;
+    }
+    return row.points + POINTS_PER_WIN * gamesLeft(row, table.length) >= lastIn.points;
+};
+
+/**
+ * The side's place in its table (its group, where the competition has
+ * groups) and which races it is still mathematically part of.
+ */
+export const findTableStanding = (teamId: number, standings: StandingRow[]): TableStanding | undefined => {
+    const row = standings.find(s => s.teamId === teamId);
+    if (!row) return undefined;
+
+    const table = standings
+        .filter(s => s.group === row.group)
+        .sort((a, b) => a.position - b.position);
+    const index = table.indexOf(row);
+    const above = table[index - 1];
+    const below = table[index + 1];
+
+    const races: [TableStake, number][] = [
+        ['TITLE', 1],
+        ['EUROPE', EUROPE_PLACES],
+        ['RELEGATION', table.length - RELEGATION_PLACES]
+    ];
+    const stakes = races.filter(([, places]) => isRaceLive(row, table, places)).map(([stake]) => stake);
+    const remaining = gamesLeft(row, table.length);
+
+    return {
+        teamId,
+        position: row.position,
+        points: row.points,
+        tableSize: table.length,
+        gamesLeft: remaining,
+        gapAbove: above ? above.points - row.points : null,
+        gapBelow: below ? row.points - below.points : null,
+        stakes,
+        nothingToPlayFor: remaining > 0 && stakes.length === 0
+    };
+};
+
+export const calculateTableAdjustment = (home?: TableStanding, away?: TableStanding): number =>
+    [home, away].filter(standing => standing?.nothingToPlayFor).length * DEAD_RUBBER_EFFECT;
+
+const ordinal = (n: number): string => {
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+    return `${n}${suffix}`;
+};
+
+export const describeTableStanding = (side: string, standing: TableStanding): string => {
+    const place = `${side} ${ordinal(standing.position)} on ${standing.points} pts`;
+    const gap = standing.gapAbove !== null ? `, ${standing.gapAbove} off ${ordinal(standing.position - 1)}` : '';
+    const stakes = standing.stakes.length > 0
+        ? standing.stakes.map(stake => stake.toLowerCase()).join('/') + ' race'
+        : standing.nothingToPlayFor ? 'nothing to play for' : 'season over';
+    return `${place}${gap} (${stakes})`;
+};
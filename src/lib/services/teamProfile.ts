@@ -0,0 +1,125 @@
+// src/lib/services/teamProfile.ts
+
+import { Match } from './dataService';
+import {
+    AdvancedBTTSStats,
+    ScoringTrend,
+    analyzeAdvancedBTTS,
+    analyzeScoringTrends
+} from './predictionService';
+
+export interface TeamResult {
+    match: Match;
+    venue: 'HOME' | 'AWAY';
+    opponent: string;
+    opponentId: number;
+    goalsFor: number;
+    goalsAgainst: number;
+    outcome: 'W' | 'D' | 'L';
+    btts: boolean;
+}
+
+export interface TeamSplit {
+    games: number;
+    wins: number;
+    draws: number;
+    losses: number;
+    goalsFor: number;
+    goalsAgainst: number;
+    cleanSheets: number; // games this team kept out the opponent
+    failedToScore: number;
+    bttsRate: number; // 0 to 100
+}
+
+export interface BTTSStreak {
+    btts: boolean; // what the current run is made of
+    length: number;
+}
+
+export interface TeamProfile {
+    teamId: number;
+    teamName: string;
+    results: TeamResult[]; // most recent first
+    overall: TeamSplit;
+    home: TeamSplit;
+    away: TeamSplit;
+    currentStreak: BTTSStreak | null;
+    longestBTTSRun: number;
+    scoring: AdvancedBTTSStats;
+    trend: ScoringTrend;
+}
+
+const toResult = (teamId: number, match: Match): TeamResult => {
+    const atHome = match.homeTeamId === teamId;
+    const goalsFor = (atHome ? match.score.home : match.score.away) || 0;
+    const goalsAgainst = (atHome ? match.score.away : match.score.home) || 0;
+
+    return {
+        match,
+        venue: atHome ? 'HOME' : 'AWAY',
+        opponent: atHome ? match.awayTeam : match.homeTeam,
+        opponentId: atHome ? match.awayTeamId : match.homeTeamId,
+        goalsFor,
+        goalsAgainst,
+        outcome: goalsFor > goalsAgainst ? 'W' : goalsFor < goalsAgainst ? 'L' : 'D',
+        btts: goalsFor > 0 && goalsAgainst > 0
+    };
+};
+
+export const summarizeResults = (results: TeamResult[]): TeamSplit => ({
+    games: results.length,
+    wins: results.filter(r => r.outcome === 'W').length,
+    draws: results.filter(r => r.outcome === 'D').length,
+    losses: results.filter(r => r.outcome === 'L').length,
+    goalsFor: results.reduce((sum, r) => sum + r.goalsFor, 0),
+    goalsAgainst: results.reduce((sum, r) => sum + r.goalsAgainst, 0),
+    cleanSheets: results.filter(r => r.goalsAgainst === 0).length,
+    failedToScore: results.filter(r => r.goalsFor === 0).length,
+    bttsRate: results.length > 0 ? (results.filter(r => r.btts).length / results.length) * 100 : 0
+});
+
+// Results must be most recent first; the current run is counted back from the latest game
+export const findCurrentStreak = (results: TeamResult[]): BTTSStreak | null => {
+    if (results.length === 0) return null;
+
+    const btts = results[0].btts;
+    const broken = results.findIndex(r => r.btts !== btts);
+    return { btts, length: broken === -1 ? results.length : broken };
+};
+
+export const findLongestBTTSRun = (results: TeamResult[]): number =>
+    results.reduce(
+        (acc, r) => {
+            const run = r.btts ? acc.run + 1 : 0;
+            return { run, longest: Math.max(acc.longest, run) };
+        },
+        { run: 0, longest: 0 }
+    ).longest;
+
+/**
+ * Everything the team page shows, built from the team's finished matches. The name
+ * comes from the matches themselves, so a team with no history has no profile.
+ */
+export const buildTeamProfile = (teamId: number, history: Match[]): TeamProfile | null => {
+    const finished = history
+        .filter(m => m.status === 'FINISHED' && (m.homeTeamId === teamId || m.awayTeamId === teamId))
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+    if (finished.length === 0) return null;
+
+    const results = finished.map(m => toResult(teamId, m));
+    const latest = finished[0];
+
+    return {
+        teamId,
+        teamName: latest.homeTeamId === teamId ? latest.homeTeam : latest.awayTeam,
+        results,
+        overall: summarizeResults(results),
+        home: summarizeResults(results.filter(r => r.venue === 'HOME')),
+        away: summarizeResults(results.filter(r => r.venue === 'AWAY')),
+        currentStreak: findCurrentStreak(results),
+        longestBTTSRun: findLongestBTTSRun(results),
+        scoring: analyzeAdvancedBTTS(finished),
+        trend: analyzeScoringTrends(finished)
+    };
+};
@@ -8,7 +8,7 @@ const mockMatch: Match = {
     homeTeamId: 1,
     awayTeam: 'Team B',
     awayTeamId: 2,
-    date: '2023-01-01',
+    date: '2023-03-15',
     status: 'SCHEDULED',
     score: { home: null, away: null }
 };
@@ -20,7 +20,8 @@ const createHistory = (btts: boolean[]): Match[] => {
         homeTeamId: 1,
         awayTeam: 'Team Y',
         awayTeamId: 2,
-        date: '2023-01-01',
+        // One game a week, most recent first
+        date: new Date(Date.UTC(2023, 2, 11) - i * 7 * 24 * 60 * 60 * 1000).toISOString(),
         status: 'FINISHED',
         score: { home: isBtts ? 1 : 1, away: isBtts ? 1 : 0 }
     }));
@@ -45,7 +46,7 @@ const h2hHistory = createHistory([true, true, false, true, false]); // 60% BTTS
 const enhancedWithH2H = generateEnhancedPrediction(mockMatch, homeHistory, awayHistory, h2hHistory);
 console.log('Enhanced with H2H:', enhancedWithH2H);
 
-// Expected:
-// Home Form: 100%, Overall: 50% -> Weighted: (100*0.6) + (50*0.4) = 60 + 20 = 80%
-// Away Form: 0%, Overall: 50% -> Weighted: (0*0.6) + (50*0.4) = 0 + 20 = 20%
-// Total Probability: (80 + 20) / 2 = 50%
+// Expected (60-day half-life, weekly games):
+// Home Form: recent BTTS games weigh more, so form sits well above the 50% overall rate
+// Away Form: mirror image, well below 50%
+// Total Probability: the two cancel out to roughly 50% before the other adjustments
@@ -0,0 +1,207 @@
+// src/lib/simulation/seasonSimulation.ts
+
+import { Match } from '../services/dataService';
+import {
+    DEFAULT_MAX_GOALS,
+    buildScoreMatrix,
+    calculateGoalExpectation,
+    calculateLeagueBaseline,
+    fitTeamStrength
+} from '../services/goalModel';
+import { RandomSource, createSeededRandom } from '../stats/random';
+
+export interface TableRow {
+    teamId: number;
+    teamName: string;
+    played: number;
+    won: number;
+    drawn: number;
+    lost: number;
+    goalsFor: number;
+    goalsAgainst: number;
+    points: number;
+}
+
+export interface TeamProjection {
+    teamId: number;
+    teamName: string;
+    currentPoints: number;
+    projectedPoints: number; // mean final points across runs
+    expectedPosition: number;
+    titleOdds: number; // 0 to 100
+    topFourOdds: number;
+    relegationOdds: number;
+    positionOdds: number[]; // [position - 1], 0 to 100
+}
+
+export interface SeasonProjection {
+    seed: number;
+    iterations: number;
+    fixturesPlayed: number;
+    fixturesRemaining: number;
+    generatedAt: string;
+    teams: TeamProjection[]; // ordered by expected position
+}
+
+export interface SimulationOptions {
+    seed: number;
+    iterations?: number;
+    relegationSpots?: number;
+}
+
+export const DEFAULT_SIMULATION_ITERATIONS = 10000;
+export const DEFAULT_RELEGATION_SPOTS = 3;
+const TOP_SPOTS = 4;
+
+const isScored = (m: Match): boolean =>
+    m.status === 'FINISHED' && m.score.home !== null && m.score.away !== null;
+
+// Postponed and cancelled games may never be played, so only these count as remaining
+const isRemaining = (m: Match): boolean => m.status === 'SCHEDULED' || m.status === 'TIMED';
+
+const emptyRow = (teamId: number, teamName: string): TableRow => ({
+    teamId, teamName, played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, points: 0
+});
+
+const applyResult = (row: TableRow, goalsFor: number, goalsAgainst: number): void => {
+    row.played++;
+    row.goalsFor += goalsFor;
+    row.goalsAgainst += goalsAgainst;
+    if (goalsFor > goalsAgainst) {
+        row.won++;
+        row.points += 3;
+    } else if (goalsFor === goalsAgainst) {
+        row.drawn++;
+        row.points += 1;
+    } else {
+        row.lost++;
+    }
+};
+
+// Points, then goal difference, then goals scored; head-to-head tiebreaks are ignored
+export const compareTableRows = (a: TableRow, b: TableRow): number =>
+    b.points - a.points
+    || (b.goalsFor - b.goalsAgainst) - (a.goalsFor - a.goalsAgainst)
+    || b.goalsFor - a.goalsFor;
+
+export const buildLeagueTable = (matches: Match[]): TableRow[] => {
+    const rows = new Map<number, TableRow>();
+    const rowFor = (teamId: number, teamName: string): TableRow => {
+        if (!rows.has(teamId)) rows.set(teamId, emptyRow(teamId, teamName));
+        return rows.get(teamId)!;
+    };
+
+    matches.forEach(m => {
+        const home = rowFor(m.homeTeamId, m.homeTeam);
+        const away = rowFor(m.awayTeamId, m.awayTeam);
+        if (!isScored(m)) return;
+        applyResult(home, m.score.home!, m.score.away!);
+        applyResult(away, m.score.away!, m.score.home!);
+    });
+
+    return Array.from(rows.values()).sort(compareTableRows);
+};
+
+// Cumulative scoreline distribution for one fixture, sampled by inverse CDF
+interface FixtureSampler {
+    homeTeamId: number;
+    awayTeamId: number;
+    cumulative: number[];
+}
+
+const sampleScore = (sampler: FixtureSampler, random: RandomSource): [number, number] => {
+    const size = DEFAULT_MAX_GOALS + 1;
+    const target = random() * sampler.cumulative[sampler.cumulative.length - 1];
+    let low = 0;
+    let high = sampler.cumulative.length - 1;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (sampler.cumulative[mid] < target) low = mid + 1;
+        else high = mid;
+    }
+    return [Math.floor(low / size), low % size];
+};
+
+/**
+ * Plays out the remaining fixtures many times with the Dixon-Coles goal model
+ * fitted to this season's results. The same seed and fixtures always give the
+ * same projection.
+ */
+export const simulateSeason = (matches: Match[], options: SimulationOptions): SeasonProjection => {
+    const iterations = options.iterations ?? DEFAULT_SIMULATION_ITERATIONS;
+    const relegationSpots = options.relegationSpots ?? DEFAULT_RELEGATION_SPOTS;
+    const random = createSeededRandom(options.seed);
+
+    const played = matches.filter(isScored);
+    const remaining = matches.filter(isRemaining);
+    const table = buildLeagueTable(matches);
+    const teamCount = table.length;
+
+    const baseline = calculateLeagueBaseline(played);
+    const strengths = new Map(table.map(row => [row.teamId, fitTeamStrength(row.teamId, played, baseline)]));
+
+    const samplers: FixtureSampler[] = remaining.map(m => {
+        const matrix = buildScoreMatrix(calculateGoalExpectation(strengths.get(m.homeTeamId)!, strengths.get(m.awayTeamId)!, baseline));
+        const cumulative: number[] = [];
+        let total = 0;
+        matrix.forEach(row => row.forEach(p => {
+            total += p;
+            cumulative.push(total);
+        }));
+        return { homeTeamId: m.homeTeamId, awayTeamId: m.awayTeamId, cumulative };
+    });
+
+    const pointsTotal = new Map<number, number>();
+    const positionCounts = new Map<number, number[]>();
+    table.forEach(row => {
+        pointsTotal.set(row.teamId, 0);
+        positionCounts.set(row.teamId, new Array(teamCount).fill(0));
+    });
+
+    for (let run = 0; run < iterations; run++) {
+        const rows = new Map(table.map(row => [row.teamId, { ...row }]));
+
+        samplers.forEach(sampler => {
+            const [homeGoals, awayGoals] = sampleScore(sampler, random);
+            applyResult(rows.get(sampler.homeTeamId)!, homeGoals, awayGoals);
+            applyResult(rows.get(sampler.awayTeamId)!, awayGoals, homeGoals);
+        });
+
+        Array.from(rows.values()).sort(compareTableRows).forEach((row, position) => {
+            pointsTotal.set(row.teamId, pointsTotal.get(row.teamId)! + row.points);
+            positionCounts.get(row.teamId)![position]++;
+        });
+    }
+
+    const share = (count: number) => (iterations > 0 ? (count / iterations) * 100 : 0);
+    const sumPositions = (counts: number[], from: number, to: number) =>
+        counts.slice(from, to).reduce((sum, c) => sum + c, 0);
+
+    const teams: TeamProjection[] = table.map(row => {
+        const counts = positionCounts.get(row.teamId)!;
+        const expectedPosition = iterations > 0
+            ? counts.reduce((sum, c, position) => sum + c * (position + 1), 0) / iterations
+            : table.indexOf(row) + 1;
+
+        return {
+            teamId: row.teamId,
+            teamName: row.teamName,
+            currentPoints: row.points,
+            projectedPoints: iterations > 0 ? pointsTotal.get(row.teamId)! / iterations : row.points,
+            expectedPosition,
+            titleOdds: share(counts[0]),
+            topFourOdds: share(sumPositions(counts, 0, TOP_SPOTS)),
+            relegationOdds: share(sumPositions(counts, Math.max(0, teamCount - relegationSpots), teamCount)),
+            positionOdds: counts.map(share)
+        };
+    });
+
+    return {
+        seed: options.seed,
+        iterations,
+        fixturesPlayed: played.length,
+        fixturesRemaining: remaining.length,
+        generatedAt: new Date().toISOString(),
+        teams: teams.sort((a, b) => a.expectedPosition - b.expectedPosition)
+    };
+};
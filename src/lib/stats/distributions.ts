@@ -0,0 +1,18 @@
+// src/lib/stats/distributions.ts
+
+export const poissonProbability = (goals: number, rate: number): number => {
+    let p = Math.exp(-rate);
+    for (let k = 1; k <= goals; k++) {
+        p *= rate / k;
+    }
+    return p;
+};
+
+// P(X <= goals) for a Poisson variable
+export const poissonCumulative = (goals: number, rate: number): number => {
+    let total = 0;
+    for (let k = 0; k <= goals; k++) {
+        total += poissonProbability(k, rate);
+    }
+    return Math.min(1, total);
+};
@@ -0,0 +1,15 @@
+// src/lib/stats/random.ts
+
+export type RandomSource = () => number; // uniform on [0, 1)
+
+// mulberry32: tiny, fast and good enough for simulation; the same seed always replays the same stream
+export const createSeededRandom = (seed: number): RandomSource => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
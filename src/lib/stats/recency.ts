@@ -0,0 +1,10 @@
+// src/lib/stats/recency.ts
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// A match one half-life old counts half as much as one played on the reference date
+export const calculateRecencyWeight = (matchDate: string, referenceDate: string | undefined, halfLifeDays: number): number => {
+    const reference = referenceDate ? new Date(referenceDate).getTime() : Date.now();
+    const ageDays = Math.max(0, (reference - new Date(matchDate).getTime()) / MS_PER_DAY);
+    return Number.isFinite(ageDays) ? Math.pow(0.5, ageDays / halfLifeDays) : 1;
+};
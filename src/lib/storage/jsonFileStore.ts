@@ -0,0 +1,59 @@
+// src/lib/storage/jsonFileStore.ts
+
+import fs from 'fs';
+import path from 'path';
+
+// Server-side persistence for state that must outlive a request (ratings, ledgers, fitted models)
+export const DATA_DIR = process.env.SPORTYKOKO_DATA_DIR || path.join(process.cwd(), '.data');
+
+export class JsonFileStore<T> {
+  private data: T | null = null;
+  private filePath: string;
+  private createDefault: () => T;
+
+  constructor(fileName: string, createDefault: () => T) {
+    this.filePath = path.join(DATA_DIR, fileName);
+    this.createDefault = createDefault;
+  }
+
+  read(): T {
+    if (this.data !== null) {
+      return this.data;
+    }
+
+    try {
+      if (fs.existsSync(this.filePath)) {
+        this.data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as T;
+        return this.data;
+      }
+    } catch (error) {
+      console.warn(`Error reading store file ${this.filePath}, starting fresh:`, error);
+    }
+
+    this.data = this.createDefault();
+    return this.data;
+  }
+
+  write(data: T): void {
+    this.data = data;
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Write then rename so a crash mid-write never leaves a truncated file
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(data));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      console.warn(`Error writing store file ${this.filePath}:`, error);
+    }
+  }
+
+  update(mutator: (data: T) => boolean | void): T {
+    const data = this.read();
+    // Mutators return false to signal nothing changed and skip the disk write
+    if (mutator(data) !== false) {
+      this.write(data);
+    }
+    return data;
+  }
+}